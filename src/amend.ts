@@ -0,0 +1,29 @@
+import { runGit } from './gitCli';
+import { GitCommit } from './gitApi';
+
+const EMPTY_TREE_HASH = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+export function resolveAmendParent(commit: GitCommit): string | undefined {
+  if (commit.parents.length > 1) {
+    return undefined;
+  }
+
+  return commit.parents[0] ?? EMPTY_TREE_HASH;
+}
+
+export async function listRemoteBranchesContaining(repositoryPath: string, commit: string): Promise<string[]> {
+  const stdout = await runGit(repositoryPath, ['branch', '-r', '--format=%(refname:short)', '--contains', commit]);
+  return stdout
+    .split(/\r?\n/g)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+export async function hasStagedChanges(repositoryPath: string): Promise<boolean> {
+  try {
+    await runGit(repositoryPath, ['diff', '--cached', '--quiet']);
+    return false;
+  } catch {
+    return true;
+  }
+}
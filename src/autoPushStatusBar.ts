@@ -0,0 +1,94 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { GitAPI, GitRepository, findActiveRepository, repositoryKey } from './gitApi';
+import { PendingCommitState, isPendingExpired } from './state';
+
+const REFRESH_INTERVAL_MS = 30_000;
+
+export class AutoPushStatusBar implements vscode.Disposable {
+  private readonly item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly repositoryDisposables = new Map<string, vscode.Disposable>();
+
+  public constructor(
+    private readonly api: GitAPI,
+    private readonly pendingState: PendingCommitState,
+    private readonly getExpiryMinutes: (repository: GitRepository) => number,
+    private readonly disarmCommandId: string
+  ) {
+    for (const repository of api.repositories) {
+      this.watchRepository(repository);
+    }
+
+    const timer = setInterval(() => this.refresh(), REFRESH_INTERVAL_MS);
+    this.disposables.push(
+      pendingState.onDidChange(() => this.refresh()),
+      vscode.window.onDidChangeActiveTextEditor(() => this.refresh()),
+      api.onDidOpenRepository((repository) => {
+        this.watchRepository(repository);
+        this.refresh();
+      }),
+      api.onDidCloseRepository((repository) => {
+        const key = repositoryKey(repository);
+        this.repositoryDisposables.get(key)?.dispose();
+        this.repositoryDisposables.delete(key);
+        this.refresh();
+      }),
+      new vscode.Disposable(() => clearInterval(timer))
+    );
+
+    this.refresh();
+  }
+
+  private watchRepository(repository: GitRepository): void {
+    const key = repositoryKey(repository);
+    if (this.repositoryDisposables.has(key) || !repository.ui.onDidChange) {
+      return;
+    }
+
+    this.repositoryDisposables.set(key, repository.ui.onDidChange(() => this.refresh()));
+  }
+
+  public refresh(): void {
+    const repository = findActiveRepository(this.api);
+    const pending = repository ? this.pendingState.get(repository) : undefined;
+    if (!repository || !pending) {
+      this.item.hide();
+      return;
+    }
+
+    const expiryMinutes = this.getExpiryMinutes(repository);
+    if (isPendingExpired(pending, expiryMinutes)) {
+      this.item.hide();
+      return;
+    }
+
+    const [subject] = pending.message.split('\n');
+    const expiresAt =
+      expiryMinutes > 0 ? new Date(pending.createdAt + expiryMinutes * 60_000).toLocaleTimeString() : undefined;
+    this.item.text = '$(cloud-upload) 自動push待機中';
+    this.item.tooltip = [
+      `${path.basename(repository.rootUri.fsPath)}: 次のコミットが生成メッセージと一致すると自動pushします。`,
+      `生成メッセージ: ${subject}`,
+      expiresAt ? `有効期限: ${expiresAt}` : undefined,
+      'クリックで自動pushを解除'
+    ]
+      .filter((line): line is string => line !== undefined)
+      .join('\n');
+    this.item.command = {
+      command: this.disarmCommandId,
+      title: '自動pushを解除',
+      arguments: [{ rootUri: repository.rootUri }]
+    };
+    this.item.show();
+  }
+
+  public dispose(): void {
+    for (const disposable of [...this.disposables, ...this.repositoryDisposables.values()]) {
+      disposable.dispose();
+    }
+
+    this.repositoryDisposables.clear();
+    this.item.dispose();
+  }
+}
@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import { editCommitMessage } from './candidatePicker';
+
+export interface BatchReviewEntry {
+  label: string;
+  description?: string;
+  message: string;
+}
+
+export interface BatchReviewDecision {
+  index: number;
+  message: string;
+  edited: boolean;
+}
+
+interface BatchQuickPickItem extends vscode.QuickPickItem {
+  readonly index: number;
+}
+
+type BatchAction = { kind: 'accept'; selected: number[] } | { kind: 'edit'; index: number; selected: number[] };
+
+const EDIT_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon('edit'),
+  tooltip: 'メッセージを編集'
+};
+
+function showBatchQuickPick(
+  entries: BatchReviewEntry[],
+  messages: string[],
+  selected: Set<number>,
+  lint: (index: number, message: string) => string[]
+): Promise<BatchAction | undefined> {
+  return new Promise((resolve) => {
+    const quickPick = vscode.window.createQuickPick<BatchQuickPickItem>();
+    quickPick.title = `リポジトリごとのcommitMessage（${entries.length}件）`;
+    quickPick.placeholder = 'コミットするリポジトリを選択（鉛筆アイコンで編集）';
+    quickPick.canSelectMany = true;
+    quickPick.matchOnDetail = true;
+    quickPick.items = entries.map((entry, index) => {
+      const violations = lint(index, messages[index]);
+      return {
+        label: entry.label,
+        description: violations.length > 0 ? `$(warning) ${violations[0]}` : entry.description,
+        detail: messages[index].split('\n')[0],
+        buttons: [EDIT_BUTTON],
+        index
+      };
+    });
+    quickPick.selectedItems = quickPick.items.filter((item) => selected.has(item.index));
+
+    let result: BatchAction | undefined;
+    const selectedIndexes = (): number[] => quickPick.selectedItems.map((item) => item.index);
+    const disposables: vscode.Disposable[] = [
+      quickPick.onDidAccept(() => {
+        result = { kind: 'accept', selected: selectedIndexes() };
+        quickPick.hide();
+      }),
+      quickPick.onDidTriggerItemButton((event) => {
+        result = { kind: 'edit', index: event.item.index, selected: selectedIndexes() };
+        quickPick.hide();
+      }),
+      quickPick.onDidHide(() => {
+        for (const disposable of disposables) {
+          disposable.dispose();
+        }
+
+        quickPick.dispose();
+        resolve(result);
+      })
+    ];
+
+    quickPick.show();
+  });
+}
+
+export async function reviewBatchMessages(
+  entries: BatchReviewEntry[],
+  lint: (index: number, message: string) => string[]
+): Promise<BatchReviewDecision[] | undefined> {
+  const messages = entries.map((entry) => entry.message);
+  const edited = entries.map(() => false);
+  let selected = new Set(entries.map((_, index) => index).filter((index) => lint(index, messages[index]).length === 0));
+
+  for (;;) {
+    const action = await showBatchQuickPick(entries, messages, selected, lint);
+    if (!action) {
+      return undefined;
+    }
+
+    selected = new Set(action.selected);
+    if (action.kind === 'accept') {
+      return action.selected.map((index) => ({ index, message: messages[index], edited: edited[index] }));
+    }
+
+    const message = await editCommitMessage(messages[action.index]);
+    if (message !== undefined && message !== messages[action.index]) {
+      messages[action.index] = message;
+      edited[action.index] = true;
+      selected.add(action.index);
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+
+export type CandidatePickResult =
+  | { readonly kind: 'selected'; readonly message: string; readonly edited: boolean }
+  | { readonly kind: 'regenerate' };
+
+interface CandidateQuickPickItem extends vscode.QuickPickItem {
+  readonly message: string;
+}
+
+const EDIT_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon('edit'),
+  tooltip: '編集して使用'
+};
+
+const REGENERATE_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon('refresh'),
+  tooltip: '再生成'
+};
+
+function toCandidateItem(message: string, lint: (message: string) => string[]): CandidateQuickPickItem {
+  const [subject, ...rest] = message.split('\n');
+  const body = rest.join(' ').replace(/\s+/g, ' ').trim();
+  const violations = lint(message);
+
+  return {
+    label: subject,
+    description: violations.length > 0 ? `$(warning) ${violations[0]}` : undefined,
+    detail: body || undefined,
+    buttons: [EDIT_BUTTON],
+    message
+  };
+}
+
+export async function editCommitMessage(message: string): Promise<string | undefined> {
+  const [subject, ...rest] = message.split('\n');
+  const editedSubject = await vscode.window.showInputBox({
+    title: 'commitMessageを編集',
+    prompt: rest.length > 0 ? '件名を編集します。本文はそのまま保持されます。' : undefined,
+    value: subject,
+    validateInput: (value) => (value.trim() ? undefined : '空のメッセージは使用できません。')
+  });
+
+  if (editedSubject === undefined) {
+    return undefined;
+  }
+
+  return [editedSubject.trim(), ...rest].join('\n');
+}
+
+function showCandidateQuickPick(
+  candidates: string[],
+  lint: (message: string) => string[]
+): Promise<{ item: CandidateQuickPickItem; edit: boolean } | 'regenerate' | undefined> {
+  return new Promise((resolve) => {
+    const quickPick = vscode.window.createQuickPick<CandidateQuickPickItem>();
+    quickPick.title = 'commitMessage候補';
+    quickPick.placeholder = '使用するcommitMessageを選択（鉛筆アイコンで編集、右上で再生成）';
+    quickPick.items = candidates.map((candidate) => toCandidateItem(candidate, lint));
+    quickPick.buttons = [REGENERATE_BUTTON];
+    quickPick.matchOnDetail = true;
+
+    let result: { item: CandidateQuickPickItem; edit: boolean } | 'regenerate' | undefined;
+    const disposables: vscode.Disposable[] = [
+      quickPick.onDidAccept(() => {
+        const [item] = quickPick.selectedItems;
+        if (item) {
+          result = { item, edit: false };
+          quickPick.hide();
+        }
+      }),
+      quickPick.onDidTriggerItemButton((event) => {
+        result = { item: event.item, edit: true };
+        quickPick.hide();
+      }),
+      quickPick.onDidTriggerButton(() => {
+        result = 'regenerate';
+        quickPick.hide();
+      }),
+      quickPick.onDidHide(() => {
+        for (const disposable of disposables) {
+          disposable.dispose();
+        }
+
+        quickPick.dispose();
+        resolve(result);
+      })
+    ];
+
+    quickPick.show();
+  });
+}
+
+export async function pickCommitMessageCandidate(
+  candidates: string[],
+  lint: (message: string) => string[]
+): Promise<CandidatePickResult | undefined> {
+  for (;;) {
+    const picked = await showCandidateQuickPick(candidates, lint);
+    if (!picked) {
+      return undefined;
+    }
+
+    if (picked === 'regenerate') {
+      return { kind: 'regenerate' };
+    }
+
+    if (!picked.edit) {
+      return { kind: 'selected', message: picked.item.message, edited: false };
+    }
+
+    const edited = await editCommitMessage(picked.item.message);
+    if (edited !== undefined) {
+      return { kind: 'selected', message: edited, edited: edited !== picked.item.message };
+    }
+  }
+}
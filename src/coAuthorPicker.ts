@@ -0,0 +1,14 @@
+import * as vscode from 'vscode';
+
+export async function pickCoAuthors(roster: string[]): Promise<string[]> {
+  const picked = await vscode.window.showQuickPick(
+    roster.map((entry) => ({ label: entry })),
+    {
+      title: 'Co-authored-by に追加するメンバー',
+      placeHolder: '共同作業者を選択（Escで追加なし）',
+      canPickMany: true
+    }
+  );
+
+  return picked?.map((item) => item.label) ?? [];
+}
@@ -1,35 +1,21 @@
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { spawn } from 'child_process';
-import * as vscode from 'vscode';
+import { CommitMessageGenerator, GenerateRequest, GeneratorError, GeneratorErrorCode, tail } from './generator';
+import { EXEC_FAILURE_EXIT_CODE, isNotFoundLikeSpawnError, terminateChild, toErrno } from './processUtils';
 
 export type ReasoningEffort = 'minimal' | 'low' | 'medium' | 'high';
 
-export interface CodexGenerateOptions {
+export interface CodexGeneratorOptions {
   commandPath: string;
   model: string;
   reasoningEffort: ReasoningEffort;
-  prompt: string;
-  cwd: string;
-  timeoutMs: number;
-  output: vscode.OutputChannel;
 }
 
-export type CodexCliErrorCode =
-  | 'not-found'
-  | 'timeout'
-  | 'model-access'
-  | 'process-failed'
-  | 'parse-failed'
-  | 'empty-response';
-
-export class CodexCliError extends Error {
-  constructor(
-    public readonly code: CodexCliErrorCode,
-    message: string,
-    public readonly details?: string
-  ) {
-    super(message);
+export class CodexCliError extends GeneratorError {
+  constructor(code: GeneratorErrorCode, message: string, details?: string) {
+    super(code, message, details);
   }
 }
 
@@ -41,13 +27,38 @@ interface CodexJsonEvent {
   };
 }
 
-function toErrno(error: unknown): NodeJS.ErrnoException {
-  return error as NodeJS.ErrnoException;
-}
+function describeCodexEvent(event: CodexJsonEvent): string | undefined {
+  const itemType = event.item?.type;
+  switch (event.type) {
+    case 'thread.started':
+      return 'Codexセッションを開始しました';
+    case 'turn.started':
+      return '生成を開始しました';
+    case 'item.started':
+      if (itemType === 'reasoning') {
+        return '推論中...';
+      }
+
+      if (itemType === 'command_execution') {
+        return 'コマンドを実行中...';
+      }
+
+      return undefined;
+    case 'item.completed':
+      if (itemType === 'reasoning') {
+        return '推論が完了しました';
+      }
+
+      if (itemType === 'agent_message') {
+        return 'メッセージを受信しました';
+      }
 
-function isNotFoundLikeSpawnError(error: unknown): boolean {
-  const errnoError = toErrno(error);
-  return errnoError.code === 'ENOENT' || errnoError.code === 'EINVAL';
+      return undefined;
+    case 'turn.completed':
+      return '生成が完了しました';
+    default:
+      return undefined;
+  }
 }
 
 function uniqueCommandPaths(paths: string[]): string[] {
@@ -67,15 +78,38 @@ function uniqueCommandPaths(paths: string[]): string[] {
   return results;
 }
 
-function getBundledWindowsCodexCandidates(): string[] {
-  const userProfile = process.env.USERPROFILE;
-  if (!userProfile) {
+const BUNDLED_PLATFORM_NAMES: Partial<Record<NodeJS.Platform, string>> = {
+  win32: 'windows',
+  darwin: 'macos',
+  linux: 'linux'
+};
+
+const BUNDLED_ARCH_NAMES: Partial<Record<string, string>> = {
+  x64: 'x86_64',
+  arm64: 'aarch64'
+};
+
+function listBundledCodexBinaries(binDirectory: string): string[] {
+  const platformName = BUNDLED_PLATFORM_NAMES[process.platform];
+  const archName = BUNDLED_ARCH_NAMES[process.arch];
+  if (!platformName || !archName) {
+    return [];
+  }
+
+  const executable = process.platform === 'win32' ? 'codex.exe' : 'codex';
+  return [path.join(binDirectory, `${platformName}-${archName}`, executable)];
+}
+
+function getBundledCodexCandidates(): string[] {
+  const homeDirectory = process.platform === 'win32' ? process.env.USERPROFILE : os.homedir();
+  if (!homeDirectory) {
     return [];
   }
 
   const extensionRoots = [
-    path.join(userProfile, '.vscode', 'extensions'),
-    path.join(userProfile, '.vscode-insiders', 'extensions')
+    path.join(homeDirectory, '.vscode', 'extensions'),
+    path.join(homeDirectory, '.vscode-insiders', 'extensions'),
+    path.join(homeDirectory, '.vscode-server', 'extensions')
   ];
 
   const candidates: string[] = [];
@@ -100,14 +134,36 @@ function getBundledWindowsCodexCandidates(): string[] {
         continue;
       }
 
-      candidates.push(path.join(root, directory.name, 'bin', 'windows-x86_64', 'codex.exe'));
+      candidates.push(...listBundledCodexBinaries(path.join(root, directory.name, 'bin')));
     }
   }
 
   return candidates;
 }
 
-function buildCommandCandidates(configuredCommandPath: string): string[] {
+function getUnixCodexCandidates(): string[] {
+  const homeDirectory = os.homedir();
+  const candidates = [
+    path.join(homeDirectory, '.local', 'bin', 'codex'),
+    path.join(homeDirectory, '.npm-global', 'bin', 'codex'),
+    path.join(homeDirectory, '.volta', 'bin', 'codex'),
+    path.join(homeDirectory, '.bun', 'bin', 'codex')
+  ];
+
+  const npmPrefix = process.env.NPM_CONFIG_PREFIX ?? process.env.npm_config_prefix;
+  if (npmPrefix) {
+    candidates.push(path.join(npmPrefix, 'bin', 'codex'));
+  }
+
+  if (process.platform === 'darwin') {
+    candidates.push('/opt/homebrew/bin/codex');
+  }
+
+  candidates.push('/usr/local/bin/codex', '/usr/bin/codex');
+  return candidates;
+}
+
+export function listCommandCandidates(configuredCommandPath: string): string[] {
   const commandPath = configuredCommandPath.trim();
   const candidates: string[] = [commandPath];
 
@@ -122,41 +178,18 @@ function buildCommandCandidates(configuredCommandPath: string): string[] {
       candidates.push(path.join(appData, 'npm', 'codex'));
       candidates.push(path.join(appData, 'npm', 'codex.exe'));
     }
-
-    candidates.push(...getBundledWindowsCodexCandidates());
-  }
-
-  const filtered = candidates.filter((candidate) => {
-    if (!candidate) {
-      return false;
-    }
-
-    if (!path.isAbsolute(candidate)) {
-      return true;
-    }
-
-    return fs.existsSync(candidate);
-  });
-
-  return uniqueCommandPaths(filtered);
-}
-
-function tail(text: string, maxChars: number): string {
-  if (text.length <= maxChars) {
-    return text;
+  } else {
+    candidates.push(...getUnixCodexCandidates());
   }
 
-  return text.slice(text.length - maxChars);
+  candidates.push(...getBundledCodexCandidates());
+  return uniqueCommandPaths(candidates.filter((candidate) => candidate.length > 0));
 }
 
-function normalizeGeneratedMessage(raw: string): string {
-  const firstLine =
-    raw
-      .split(/\r?\n/g)
-      .map((line) => line.trim())
-      .find((line) => line.length > 0) ?? '';
-
-  return firstLine.replace(/^["'`]+|["'`]+$/g, '').trim();
+export function buildCommandCandidates(configuredCommandPath: string): string[] {
+  return listCommandCandidates(configuredCommandPath).filter(
+    (candidate) => !path.isAbsolute(candidate) || fs.existsSync(candidate)
+  );
 }
 
 function isModelAccessError(text: string): boolean {
@@ -169,7 +202,8 @@ function isModelAccessError(text: string): boolean {
 
 async function runCodexWithCommand(
   commandPath: string,
-  options: CodexGenerateOptions
+  options: CodexGeneratorOptions,
+  request: GenerateRequest
 ): Promise<string> {
   const args = [
     'exec',
@@ -178,10 +212,10 @@ async function runCodexWithCommand(
     options.model,
     '-c',
     `model_reasoning_effort="${options.reasoningEffort}"`,
-    options.prompt
+    request.prompt
   ];
 
-  options.output.appendLine(
+  request.output.appendLine(
     `[codex] Running: ${commandPath} exec --json -m ${options.model} -c model_reasoning_effort="${options.reasoningEffort}" <prompt>`
   );
 
@@ -191,12 +225,18 @@ async function runCodexWithCommand(
     let stderrRaw = '';
     let lastAgentMessage: string | undefined;
     let timedOut = false;
+    let cancelled = false;
     let settled = false;
 
+    if (request.cancellationToken?.isCancellationRequested) {
+      reject(new CodexCliError('cancelled', 'Codex generation was cancelled.'));
+      return;
+    }
+
     let child: ReturnType<typeof spawn>;
     try {
       child = spawn(commandPath, args, {
-        cwd: options.cwd,
+        cwd: request.cwd,
         windowsHide: true,
         shell: false
       });
@@ -218,9 +258,19 @@ async function runCodexWithCommand(
 
     const timeoutHandle = setTimeout(() => {
       timedOut = true;
-      options.output.appendLine(`[codex] Timed out after ${options.timeoutMs} ms.`);
-      child.kill();
-    }, options.timeoutMs);
+      request.output.appendLine(`[codex] Timed out after ${request.timeoutMs} ms.`);
+      terminateChild(child);
+    }, request.timeoutMs);
+
+    const cancellationListener = request.cancellationToken?.onCancellationRequested(() => {
+      if (settled || cancelled) {
+        return;
+      }
+
+      cancelled = true;
+      request.output.appendLine('[codex] Cancellation requested. Terminating Codex CLI.');
+      terminateChild(child);
+    });
 
     const settle = (callback: () => void): void => {
       if (settled) {
@@ -229,6 +279,7 @@ async function runCodexWithCommand(
 
       settled = true;
       clearTimeout(timeoutHandle);
+      cancellationListener?.dispose();
       callback();
     };
 
@@ -252,6 +303,11 @@ async function runCodexWithCommand(
           continue;
         }
 
+        const progressMessage = describeCodexEvent(event);
+        if (progressMessage) {
+          request.onProgress?.(progressMessage);
+        }
+
         if (
           event.type === 'item.completed' &&
           event.item?.type === 'agent_message' &&
@@ -288,15 +344,31 @@ async function runCodexWithCommand(
         }
 
         if (stderrRaw.trim().length > 0) {
-          options.output.appendLine(`[codex][stderr tail]\n${tail(stderrRaw.trim(), 3000)}`);
+          request.output.appendLine(`[codex][stderr tail]\n${tail(stderrRaw.trim(), 3000)}`);
         }
 
         if (stdoutRaw.trim().length > 0) {
-          options.output.appendLine(`[codex][stdout tail]\n${tail(stdoutRaw.trim(), 3000)}`);
+          request.output.appendLine(`[codex][stdout tail]\n${tail(stdoutRaw.trim(), 3000)}`);
+        }
+
+        if (cancelled) {
+          reject(new CodexCliError('cancelled', 'Codex generation was cancelled.'));
+          return;
         }
 
         if (timedOut) {
-          reject(new CodexCliError('timeout', `Codex generation timed out after ${options.timeoutMs} ms.`));
+          reject(new CodexCliError('timeout', `Codex generation timed out after ${request.timeoutMs} ms.`));
+          return;
+        }
+
+        if (code === EXEC_FAILURE_EXIT_CODE && !stdoutRaw.trim()) {
+          reject(
+            new CodexCliError(
+              'not-found',
+              `Codex CLI could not be executed at "${commandPath}".`,
+              tail(stderrRaw, 4000)
+            )
+          );
           return;
         }
 
@@ -328,29 +400,23 @@ async function runCodexWithCommand(
           return;
         }
 
-        const normalized = normalizeGeneratedMessage(lastAgentMessage);
-        if (!normalized) {
-          reject(new CodexCliError('empty-response', 'Generated message is empty after normalization.'));
-          return;
-        }
-
-        resolve(normalized);
+        resolve(lastAgentMessage);
       });
     });
   });
 }
 
-export async function generateCommitMessageWithCodex(options: CodexGenerateOptions): Promise<string> {
+async function runCodex(options: CodexGeneratorOptions, request: GenerateRequest): Promise<string> {
   const commandCandidates = buildCommandCandidates(options.commandPath);
   let lastNotFoundError: CodexCliError | undefined;
 
   for (const commandPath of commandCandidates) {
     try {
-      return await runCodexWithCommand(commandPath, options);
+      return await runCodexWithCommand(commandPath, options, request);
     } catch (error) {
       if (error instanceof CodexCliError && error.code === 'not-found') {
         lastNotFoundError = error;
-        options.output.appendLine(`[codex] Candidate not available: ${commandPath}`);
+        request.output.appendLine(`[codex] Candidate not available: ${commandPath}`);
         continue;
       }
 
@@ -368,3 +434,11 @@ export async function generateCommitMessageWithCodex(options: CodexGenerateOptio
     'No executable candidate could be resolved.'
   );
 }
+
+export function createCodexGenerator(options: CodexGeneratorOptions): CommitMessageGenerator {
+  return {
+    label: 'Codex CLI',
+    model: options.model,
+    generate: (request) => runCodex(options, request)
+  };
+}
@@ -0,0 +1,134 @@
+import { spawn } from 'child_process';
+import { CommitMessageGenerator, GenerateRequest, GeneratorError, tail } from './generator';
+import { isNotFoundLikeSpawnError, terminateChild, toErrno } from './processUtils';
+
+export interface CommandGeneratorOptions {
+  commandPath: string;
+  args: string[];
+}
+
+function runPromptCommand(options: CommandGeneratorOptions, request: GenerateRequest): Promise<string> {
+  request.output.appendLine(`[command] Running: ${options.commandPath} ${options.args.join(' ')} < <prompt>`);
+
+  return new Promise<string>((resolve, reject) => {
+    let stdoutRaw = '';
+    let stderrRaw = '';
+    let timedOut = false;
+    let cancelled = false;
+    let settled = false;
+
+    if (request.cancellationToken?.isCancellationRequested) {
+      reject(new GeneratorError('cancelled', 'Generation was cancelled.'));
+      return;
+    }
+
+    let child: ReturnType<typeof spawn>;
+    try {
+      child = spawn(options.commandPath, options.args, {
+        cwd: request.cwd,
+        windowsHide: true,
+        shell: false
+      });
+    } catch (error) {
+      reject(
+        new GeneratorError(
+          isNotFoundLikeSpawnError(error) ? 'not-found' : 'process-failed',
+          `Failed to launch "${options.commandPath}": ${toErrno(error).message}`
+        )
+      );
+      return;
+    }
+
+    const timeoutHandle = setTimeout(() => {
+      timedOut = true;
+      request.output.appendLine(`[command] Timed out after ${request.timeoutMs} ms.`);
+      terminateChild(child);
+    }, request.timeoutMs);
+
+    const cancellationListener = request.cancellationToken?.onCancellationRequested(() => {
+      if (settled || cancelled) {
+        return;
+      }
+
+      cancelled = true;
+      request.output.appendLine('[command] Cancellation requested. Terminating command.');
+      terminateChild(child);
+    });
+
+    const settle = (callback: () => void): void => {
+      if (settled) {
+        return;
+      }
+
+      settled = true;
+      clearTimeout(timeoutHandle);
+      cancellationListener?.dispose();
+      callback();
+    };
+
+    child.stdout?.on('data', (data: Buffer) => {
+      stdoutRaw += data.toString('utf8');
+    });
+
+    child.stderr?.on('data', (data: Buffer) => {
+      stderrRaw += data.toString('utf8');
+    });
+
+    child.stdin?.on('error', (error) => {
+      request.output.appendLine(`[command] Failed to write prompt to stdin: ${error.message}`);
+    });
+
+    child.on('error', (error) => {
+      settle(() => {
+        if (isNotFoundLikeSpawnError(error)) {
+          reject(new GeneratorError('not-found', `Command was not found at "${options.commandPath}".`));
+          return;
+        }
+
+        reject(new GeneratorError('process-failed', `Failed to launch "${options.commandPath}": ${error.message}`));
+      });
+    });
+
+    child.on('close', (code) => {
+      settle(() => {
+        if (stderrRaw.trim().length > 0) {
+          request.output.appendLine(`[command][stderr tail]\n${tail(stderrRaw.trim(), 3000)}`);
+        }
+
+        if (cancelled) {
+          reject(new GeneratorError('cancelled', 'Generation was cancelled.'));
+          return;
+        }
+
+        if (timedOut) {
+          reject(new GeneratorError('timeout', `Command generation timed out after ${request.timeoutMs} ms.`));
+          return;
+        }
+
+        if (code !== 0) {
+          reject(
+            new GeneratorError(
+              'process-failed',
+              `Command exited with code ${String(code)}.`,
+              tail(`${stderrRaw}\n${stdoutRaw}`, 4000)
+            )
+          );
+          return;
+        }
+
+        resolve(stdoutRaw);
+      });
+    });
+
+    request.onProgress?.('コマンドを実行中...');
+    child.stdin?.end(request.prompt, 'utf8');
+  });
+}
+
+export function createCommandGenerator(options: CommandGeneratorOptions): CommitMessageGenerator {
+  return {
+    label: 'Command',
+    model: options.commandPath,
+    generate: (request) => runPromptCommand(options, request)
+  };
+}
@@ -0,0 +1,52 @@
+import { runGit } from './gitCli';
+import { matchGlob } from './glob';
+
+export interface CommitExampleOptions {
+  repositoryPath: string;
+  count: number;
+  excludeAuthors: string[];
+  maxChars: number;
+}
+
+const LOG_SCAN_MULTIPLIER = 4;
+
+export async function collectRecentCommitSubjects(options: CommitExampleOptions): Promise<string[]> {
+  if (options.count <= 0 || options.maxChars <= 0) {
+    return [];
+  }
+
+  const log = await runGit(options.repositoryPath, [
+    'log',
+    '--no-merges',
+    `-n${options.count * LOG_SCAN_MULTIPLIER}`,
+    '--format=%an%x09%ae%x09%s',
+    'HEAD',
+    '--'
+  ]);
+
+  const subjects: string[] = [];
+  let usedChars = 0;
+  for (const line of log.split('\n')) {
+    const [author = '', email = '', subject = ''] = line.split('\t');
+    const trimmed = subject.trim();
+    if (!trimmed || subjects.includes(trimmed)) {
+      continue;
+    }
+
+    if (matchGlob(author, options.excludeAuthors) || matchGlob(email, options.excludeAuthors)) {
+      continue;
+    }
+
+    if (usedChars + trimmed.length + 3 > options.maxChars) {
+      break;
+    }
+
+    subjects.push(trimmed);
+    usedChars += trimmed.length + 3;
+    if (subjects.length >= options.count) {
+      break;
+    }
+  }
+
+  return subjects;
+}
@@ -0,0 +1,160 @@
+import { StyleProfile } from './styleProfiles';
+
+export type LintRuleId =
+  | 'subject-empty'
+  | 'subject-length'
+  | 'language'
+  | 'conventional-format'
+  | 'conventional-type'
+  | 'conventional-scope'
+  | 'type-prefix'
+  | 'forbidden-prefix'
+  | 'trailing-punctuation'
+  | 'subject-pattern'
+  | 'message-format';
+
+export interface LintViolation {
+  rule: LintRuleId;
+  message: string;
+}
+
+interface LintContext {
+  lines: string[];
+  subject: string;
+  profile: StyleProfile;
+}
+
+type LintRule = (context: LintContext) => LintViolation[];
+
+const JAPANESE_SCRIPT_PATTERN = /[\u3040-\u30ff\u3400-\u9fff]/;
+const CJK_SCRIPT_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+const CONVENTIONAL_PATTERN = /^([a-z]+)(?:\(([^()\s]+)\))?(!)?: (.+)$/;
+const TYPE_PREFIX_PATTERN = /^[a-z]+(?:\([^()]*\))?!?:\s/i;
+const TRAILING_PUNCTUATION_PATTERN = /[.,;:\u3001\u3002\uff0c\uff0e\uff1a\uff1b]$/;
+
+function subjectLengthRule({ subject, profile }: LintContext): LintViolation[] {
+  const subjectLength = Array.from(subject).length;
+  if (subjectLength >= profile.minLength && subjectLength <= profile.maxLength) {
+    return [];
+  }
+
+  return [
+    {
+      rule: 'subject-length',
+      message: `Subject length ${subjectLength} is outside ${profile.minLength} to ${profile.maxLength} characters.`
+    }
+  ];
+}
+
+function languageRule({ subject, profile }: LintContext): LintViolation[] {
+  const lowered = profile.language.toLowerCase();
+  if (lowered === 'japanese' && !JAPANESE_SCRIPT_PATTERN.test(subject)) {
+    return [{ rule: 'language', message: 'Subject is not written in Japanese.' }];
+  }
+
+  if (lowered === 'english' && CJK_SCRIPT_PATTERN.test(subject)) {
+    return [{ rule: 'language', message: 'Subject contains non-English characters.' }];
+  }
+
+  return [];
+}
+
+function conventionalRule({ subject, profile }: LintContext): LintViolation[] {
+  if (!profile.conventionalCommits) {
+    return TYPE_PREFIX_PATTERN.test(subject)
+      ? [{ rule: 'type-prefix', message: 'Subject must not start with a type prefix like feat/fix/chore.' }]
+      : [];
+  }
+
+  const match = CONVENTIONAL_PATTERN.exec(subject);
+  if (!match) {
+    return [
+      {
+        rule: 'conventional-format',
+        message: 'Subject does not follow Conventional Commits format "type(scope): description".'
+      }
+    ];
+  }
+
+  const violations: LintViolation[] = [];
+  const [, type, scope] = match;
+  if (profile.allowedTypes.length > 0 && !profile.allowedTypes.includes(type)) {
+    violations.push({
+      rule: 'conventional-type',
+      message: `Type "${type}" is not allowed. Allowed: ${profile.allowedTypes.join(', ')}.`
+    });
+  }
+
+  if (scope && profile.allowedScopes.length > 0 && !profile.allowedScopes.includes(scope)) {
+    violations.push({
+      rule: 'conventional-scope',
+      message: `Scope "${scope}" is not allowed. Allowed: ${profile.allowedScopes.join(', ')}.`
+    });
+  }
+
+  return violations;
+}
+
+function forbiddenPrefixRule({ subject, profile }: LintContext): LintViolation[] {
+  const lowered = subject.toLowerCase();
+  const prefix = profile.forbiddenPrefixes.find((candidate) => lowered.startsWith(candidate.toLowerCase()));
+  return prefix ? [{ rule: 'forbidden-prefix', message: `Subject must not start with "${prefix}".` }] : [];
+}
+
+function trailingPunctuationRule({ subject, profile }: LintContext): LintViolation[] {
+  if (!profile.forbidTrailingPunctuation || !TRAILING_PUNCTUATION_PATTERN.test(subject)) {
+    return [];
+  }
+
+  return [{ rule: 'trailing-punctuation', message: 'Subject must not end with punctuation.' }];
+}
+
+function subjectPatternRule({ subject, profile }: LintContext): LintViolation[] {
+  if (!profile.subjectPattern || new RegExp(profile.subjectPattern, 'u').test(subject)) {
+    return [];
+  }
+
+  return [{ rule: 'subject-pattern', message: `Subject does not match the pattern /${profile.subjectPattern}/.` }];
+}
+
+function messageFormatRule({ lines, profile }: LintContext): LintViolation[] {
+  if (profile.format === 'subject') {
+    return lines.length > 1 ? [{ rule: 'message-format', message: 'Message must be a single line.' }] : [];
+  }
+
+  const body = lines.slice(2).join('\n').trim();
+  if (lines.length < 3 || lines[1].trim().length > 0 || !body) {
+    return [{ rule: 'message-format', message: 'Message must have a subject, a blank line, and a body.' }];
+  }
+
+  return [];
+}
+
+const LINT_RULES: LintRule[] = [
+  subjectLengthRule,
+  languageRule,
+  conventionalRule,
+  forbiddenPrefixRule,
+  trailingPunctuationRule,
+  subjectPatternRule,
+  messageFormatRule
+];
+
+export function lintCommitMessage(
+  message: string,
+  profile: StyleProfile,
+  disabledRules: readonly string[] = []
+): LintViolation[] {
+  const lines = message.split(/\r?\n/g);
+  const subject = lines[0]?.trim() ?? '';
+  if (!subject) {
+    return [{ rule: 'subject-empty', message: 'Subject line is empty.' }];
+  }
+
+  const context: LintContext = { lines, subject, profile };
+  return LINT_RULES.flatMap((rule) => rule(context)).filter((violation) => !disabledRules.includes(violation.rule));
+}
+
+export function formatLintViolation(violation: LintViolation): string {
+  return `[${violation.rule}] ${violation.message}`;
+}
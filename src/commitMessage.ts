@@ -0,0 +1,90 @@
+const TRAILER_LINE_PATTERN = /^[A-Za-z][A-Za-z0-9-]*: \S/;
+const SIGNOFF_LINE_PATTERN = /^Signed-off-by: /i;
+
+export function normalizeCommitMessage(text: string): string {
+  const lines = text.split(/\r?\n/g).map((line) => line.trimEnd());
+  const collapsed: string[] = [];
+
+  for (const line of lines) {
+    if (line.length === 0 && (collapsed.length === 0 || collapsed[collapsed.length - 1].length === 0)) {
+      continue;
+    }
+
+    collapsed.push(line);
+  }
+
+  while (collapsed.length > 0 && collapsed[collapsed.length - 1].length === 0) {
+    collapsed.pop();
+  }
+
+  return collapsed.join('\n');
+}
+
+function wrapLine(line: string, column: number): string[] {
+  if (line.length <= column) {
+    return [line];
+  }
+
+  const bulletMatch = /^(\s*(?:[-*]|\d+\.)\s+)/.exec(line);
+  const continuationIndent = bulletMatch ? ' '.repeat(bulletMatch[1].length) : '';
+  const words = line.trim().split(/\s+/g);
+  const leadingIndent = /^\s*/.exec(line)?.[0] ?? '';
+  const wrapped: string[] = [];
+  let current = leadingIndent;
+
+  for (const word of words) {
+    const hasContent = current.trim().length > 0;
+    const candidate = hasContent ? `${current} ${word}` : `${current}${word}`;
+    if (candidate.length <= column || !hasContent) {
+      current = candidate;
+      continue;
+    }
+
+    wrapped.push(current);
+    current = `${continuationIndent}${word}`;
+  }
+
+  wrapped.push(current);
+  return wrapped;
+}
+
+export function wrapMessageBody(message: string, column: number): string {
+  const [subject, ...rest] = message.split('\n');
+  if (rest.length === 0) {
+    return message;
+  }
+
+  const body = rest.flatMap((line) => wrapLine(line, column));
+  return [subject, ...body].join('\n');
+}
+
+function isTrailerBlock(paragraph: string): boolean {
+  const lines = paragraph.split('\n');
+  return lines.length > 0 && lines.every((line) => TRAILER_LINE_PATTERN.test(line));
+}
+
+export function appendTrailers(message: string, trailers: string[]): string {
+  const existing = new Set(message.split('\n').map((line) => line.trim().toLowerCase()));
+  const added = trailers.filter((trailer) => !existing.has(trailer.trim().toLowerCase()));
+  if (added.length === 0) {
+    return message;
+  }
+
+  const paragraphs = message.split('\n\n');
+  const lastParagraph = paragraphs[paragraphs.length - 1];
+  const separator = paragraphs.length > 1 && isTrailerBlock(lastParagraph) ? '\n' : '\n\n';
+  return `${message}${separator}${added.join('\n')}`;
+}
+
+export function extractTrailers(message: string): string[] {
+  const paragraphs = normalizeCommitMessage(message).split('\n\n');
+  const lastParagraph = paragraphs[paragraphs.length - 1];
+  return paragraphs.length > 1 && isTrailerBlock(lastParagraph) ? lastParagraph.split('\n') : [];
+}
+
+export function stripSignoffTrailers(message: string): string {
+  return message
+    .split('\n')
+    .filter((line) => !SIGNOFF_LINE_PATTERN.test(line))
+    .join('\n');
+}
@@ -0,0 +1,95 @@
+import { DiffSource, DiffStats } from './diffCollector';
+import { GeneratedCommitGroup } from './generator';
+import { runGit } from './gitCli';
+
+export interface CommitPlanGroup {
+  message: string;
+  files: string[];
+  edited: boolean;
+}
+
+export interface NormalizedCommitPlan {
+  groups: CommitPlanGroup[];
+  unassignedFiles: string[];
+  unknownFiles: string[];
+}
+
+function splitNullSeparated(stdout: string): string[] {
+  return stdout.split('\0').filter((line) => line.length > 0);
+}
+
+export async function listPlanFiles(
+  repositoryPath: string,
+  source: Exclude<DiffSource, 'staged'>,
+  includeUntracked: boolean
+): Promise<string[]> {
+  let hasHead = true;
+  try {
+    await runGit(repositoryPath, ['rev-parse', '--verify', '--quiet', 'HEAD']);
+  } catch {
+    hasHead = false;
+  }
+
+  const trackedArgs = hasHead
+    ? [['diff', '--name-only', '--no-renames', '-z', 'HEAD', '--']]
+    : [
+        ['diff', '--cached', '--name-only', '--no-renames', '-z', '--'],
+        ['diff', '--name-only', '--no-renames', '-z', '--']
+      ];
+  const files: string[] = [];
+  for (const args of trackedArgs) {
+    files.push(...splitNullSeparated(await runGit(repositoryPath, args)));
+  }
+
+  if (source === 'all' && includeUntracked) {
+    const untracked = await runGit(repositoryPath, ['ls-files', '--others', '--exclude-standard', '-z']);
+    files.push(...splitNullSeparated(untracked));
+  }
+
+  return [...new Set(files)];
+}
+
+export function normalizeCommitPlan(generated: GeneratedCommitGroup[], changedFiles: string[]): NormalizedCommitPlan {
+  const remaining = new Set(changedFiles);
+  const unknownFiles: string[] = [];
+  const groups: CommitPlanGroup[] = [];
+  for (const group of generated) {
+    const files: string[] = [];
+    for (const file of group.files) {
+      if (remaining.delete(file)) {
+        files.push(file);
+      } else if (!changedFiles.includes(file)) {
+        unknownFiles.push(file);
+      }
+    }
+
+    if (files.length > 0) {
+      groups.push({ message: group.message, files, edited: false });
+    }
+  }
+
+  const unassignedFiles = [...remaining];
+  if (unassignedFiles.length > 0 && groups.length > 0) {
+    groups[groups.length - 1].files.push(...unassignedFiles);
+  }
+
+  return { groups, unassignedFiles, unknownFiles };
+}
+
+export async function stageCommitPlanGroup(repositoryPath: string, group: CommitPlanGroup): Promise<DiffStats> {
+  await runGit(repositoryPath, ['--literal-pathspecs', 'add', '-A', '--', ...group.files]);
+  const numstat = await runGit(repositoryPath, ['diff', '--cached', '--numstat', '-z', '--no-renames']);
+  const stats: DiffStats = { files: 0, added: 0, deleted: 0 };
+  for (const record of splitNullSeparated(numstat)) {
+    const [added, deleted] = record.split('\t');
+    stats.files += 1;
+    stats.added += Number.parseInt(added, 10) || 0;
+    stats.deleted += Number.parseInt(deleted, 10) || 0;
+  }
+
+  return stats;
+}
+
+export async function unstageAllChanges(repositoryPath: string): Promise<void> {
+  await runGit(repositoryPath, ['reset', '-q']);
+}
@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import { editCommitMessage } from './candidatePicker';
+import { CommitPlanGroup } from './commitPlan';
+
+export type CommitPlanReviewResult =
+  | { readonly kind: 'confirmed'; readonly groups: CommitPlanGroup[] }
+  | { readonly kind: 'regenerate' };
+
+interface PlanQuickPickItem extends vscode.QuickPickItem {
+  readonly groupIndex: number;
+  readonly file?: string;
+}
+
+type PlanAction =
+  | { kind: 'edit'; groupIndex: number }
+  | { kind: 'move'; groupIndex: number; file: string }
+  | { kind: 'confirm' }
+  | { kind: 'regenerate' };
+
+const EDIT_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon('edit'),
+  tooltip: 'メッセージを編集'
+};
+
+const CONFIRM_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon('check'),
+  tooltip: 'このプランでコミット'
+};
+
+const REGENERATE_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon('refresh'),
+  tooltip: '再生成'
+};
+
+const NEW_GROUP_INDEX = -1;
+
+function toPlanItems(groups: CommitPlanGroup[], lint: (message: string) => string[]): PlanQuickPickItem[] {
+  const items: PlanQuickPickItem[] = [];
+  groups.forEach((group, groupIndex) => {
+    const [subject] = group.message.split('\n');
+    const violations = lint(group.message);
+    items.push(
+      { label: `コミット ${groupIndex + 1}`, kind: vscode.QuickPickItemKind.Separator, groupIndex },
+      {
+        label: `$(git-commit) ${subject}`,
+        description: violations.length > 0 ? `$(warning) ${violations[0]}` : `${group.files.length}ファイル`,
+        buttons: [EDIT_BUTTON],
+        groupIndex
+      },
+      ...group.files.map((file) => ({ label: `$(file) ${file}`, description: '選択して移動', groupIndex, file }))
+    );
+  });
+
+  return items;
+}
+
+function showPlanQuickPick(
+  groups: CommitPlanGroup[],
+  lint: (message: string) => string[]
+): Promise<PlanAction | undefined> {
+  return new Promise((resolve) => {
+    const quickPick = vscode.window.createQuickPick<PlanQuickPickItem>();
+    quickPick.title = `コミットプラン（${groups.length}件）`;
+    quickPick.placeholder = 'ファイルを選択して別のコミットへ移動、件名を選択して編集（右上で確定・再生成）';
+    quickPick.items = toPlanItems(groups, lint);
+    quickPick.buttons = [CONFIRM_BUTTON, REGENERATE_BUTTON];
+
+    let result: PlanAction | undefined;
+    const disposables: vscode.Disposable[] = [
+      quickPick.onDidAccept(() => {
+        const [item] = quickPick.selectedItems;
+        if (item) {
+          result = item.file
+            ? { kind: 'move', groupIndex: item.groupIndex, file: item.file }
+            : { kind: 'edit', groupIndex: item.groupIndex };
+          quickPick.hide();
+        }
+      }),
+      quickPick.onDidTriggerItemButton((event) => {
+        result = { kind: 'edit', groupIndex: event.item.groupIndex };
+        quickPick.hide();
+      }),
+      quickPick.onDidTriggerButton((button) => {
+        result = button === CONFIRM_BUTTON ? { kind: 'confirm' } : { kind: 'regenerate' };
+        quickPick.hide();
+      }),
+      quickPick.onDidHide(() => {
+        for (const disposable of disposables) {
+          disposable.dispose();
+        }
+
+        quickPick.dispose();
+        resolve(result);
+      })
+    ];
+
+    quickPick.show();
+  });
+}
+
+async function pickDestinationGroup(
+  groups: CommitPlanGroup[],
+  sourceIndex: number,
+  file: string
+): Promise<number | undefined> {
+  const items = [
+    ...groups
+      .map((group, groupIndex) => ({
+        label: `コミット ${groupIndex + 1}`,
+        description: group.message.split('\n')[0],
+        groupIndex
+      }))
+      .filter((item) => item.groupIndex !== sourceIndex),
+    { label: '$(add) 新しいコミットに分ける', description: '', groupIndex: NEW_GROUP_INDEX }
+  ];
+
+  const picked = await vscode.window.showQuickPick(items, { title: `${file} の移動先` });
+  return picked?.groupIndex;
+}
+
+async function moveFile(groups: CommitPlanGroup[], sourceIndex: number, file: string): Promise<CommitPlanGroup[]> {
+  const destinationIndex = await pickDestinationGroup(groups, sourceIndex, file);
+  if (destinationIndex === undefined) {
+    return groups;
+  }
+
+  const updated = groups.map((group, groupIndex) => {
+    if (groupIndex === sourceIndex) {
+      return { ...group, files: group.files.filter((candidate) => candidate !== file) };
+    }
+
+    return groupIndex === destinationIndex ? { ...group, files: [...group.files, file] } : group;
+  });
+
+  if (destinationIndex === NEW_GROUP_INDEX) {
+    const message = await editCommitMessage('');
+    if (message === undefined) {
+      return groups;
+    }
+
+    updated.push({ message, files: [file], edited: true });
+  }
+
+  return updated.filter((group) => group.files.length > 0);
+}
+
+export async function reviewCommitPlan(
+  initialGroups: CommitPlanGroup[],
+  lint: (message: string) => string[]
+): Promise<CommitPlanReviewResult | undefined> {
+  let groups = initialGroups;
+  for (;;) {
+    const action = await showPlanQuickPick(groups, lint);
+    if (!action) {
+      return undefined;
+    }
+
+    switch (action.kind) {
+      case 'confirm':
+        return { kind: 'confirmed', groups };
+      case 'regenerate':
+        return { kind: 'regenerate' };
+      case 'move':
+        groups = await moveFile(groups, action.groupIndex, action.file);
+        break;
+      default: {
+        const current = groups[action.groupIndex];
+        const edited = await editCommitMessage(current.message);
+        if (edited !== undefined && edited !== current.message) {
+          groups = groups.map((group, groupIndex) =>
+            groupIndex === action.groupIndex ? { ...group, message: edited, edited: true } : group
+          );
+        }
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { runGit } from './gitCli';
+import { GitRepository } from './gitApi';
+
+export interface CommitOptions {
+  signoff: boolean;
+  signCommit: boolean;
+  noVerify: boolean;
+}
+
+export type CommitFailureKind = 'hook' | 'signing' | 'other';
+
+export class CommitFailureError extends Error {
+  constructor(
+    public readonly kind: CommitFailureKind,
+    message: string,
+    public readonly commandOutput: string
+  ) {
+    super(message);
+  }
+}
+
+const COMMIT_HOOK_NAMES = ['pre-commit', 'prepare-commit-msg', 'commit-msg'];
+const NO_CHANGES_PATTERN = /nothing to commit|no changes added|working tree clean/i;
+const SIGNING_FAILURE_PATTERN = /gpg failed to sign|cannot run gpg|failed to sign the data|ssh-keygen|signing failed/i;
+
+function readCommandOutput(error: unknown): string {
+  if (typeof error !== 'object' || error === null) {
+    return '';
+  }
+
+  const record = error as { stderr?: unknown; stdout?: unknown };
+  return [record.stdout, record.stderr]
+    .filter((value): value is string => typeof value === 'string' && value.trim().length > 0)
+    .join('\n')
+    .trim();
+}
+
+async function findCommitHooks(repositoryPath: string): Promise<string[]> {
+  let hooksPath: string;
+  try {
+    hooksPath = (await runGit(repositoryPath, ['rev-parse', '--git-path', 'hooks'])).trim();
+  } catch {
+    return [];
+  }
+
+  const hooksDirectory = path.resolve(repositoryPath, hooksPath);
+  const found: string[] = [];
+  for (const hookName of COMMIT_HOOK_NAMES) {
+    try {
+      await fs.promises.access(path.join(hooksDirectory, hookName), fs.constants.F_OK);
+      found.push(hookName);
+    } catch {
+      // Hook is not installed.
+    }
+  }
+
+  return found;
+}
+
+export async function commitWithOptions(
+  repository: GitRepository,
+  message: string,
+  options: CommitOptions,
+  output: vscode.OutputChannel,
+  amend = false
+): Promise<void> {
+  output.appendLine(
+    `[commit] ${amend ? 'Amending' : 'Committing'} (signoff=${options.signoff}, sign=${options.signCommit}, noVerify=${options.noVerify}).`
+  );
+
+  try {
+    await repository.commit(message, {
+      amend,
+      postCommitCommand: null,
+      signoff: options.signoff,
+      signCommit: options.signCommit,
+      noVerify: options.noVerify
+    });
+  } catch (error) {
+    const commandOutput = readCommandOutput(error);
+    if (SIGNING_FAILURE_PATTERN.test(commandOutput)) {
+      throw new CommitFailureError('signing', 'Commit signing failed.', commandOutput);
+    }
+
+    if (!commandOutput || NO_CHANGES_PATTERN.test(commandOutput)) {
+      throw error;
+    }
+
+    if (!options.noVerify) {
+      const lowerOutput = commandOutput.toLowerCase();
+      const hooks = (await findCommitHooks(repository.rootUri.fsPath)).filter((hookName) =>
+        lowerOutput.includes(hookName)
+      );
+      if (hooks.length > 0) {
+        throw new CommitFailureError('hook', `Commit hook failed (${hooks.join(', ')}).`, commandOutput);
+      }
+    }
+
+    throw new CommitFailureError('other', 'Commit failed.', commandOutput);
+  }
+}
@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { listCommandCandidates } from './codexCli';
+import { CommitMessageGenerator, GeneratorError, tail } from './generator';
+
+export type DiagnosticStatus = 'pass' | 'fail' | 'skip';
+
+export interface DiagnosticCheck {
+  name: string;
+  status: DiagnosticStatus;
+  detail: string;
+}
+
+interface ProbeResult {
+  ok: boolean;
+  output: string;
+}
+
+const execFileAsync = promisify(execFile);
+const PROBE_TIMEOUT_MS = 15_000;
+const MODEL_TEST_PROMPT = 'Reply with the single word OK.';
+
+async function probe(command: string, args: string[], cwd?: string): Promise<ProbeResult> {
+  try {
+    const result = await execFileAsync(command, args, {
+      cwd,
+      encoding: 'utf8',
+      windowsHide: true,
+      timeout: PROBE_TIMEOUT_MS
+    });
+    return { ok: true, output: `${result.stdout ?? ''}${result.stderr ?? ''}`.trim() };
+  } catch (error) {
+    const record = error as { message?: string; stdout?: string; stderr?: string };
+    const output = [record.stdout, record.stderr, record.message]
+      .filter((value): value is string => typeof value === 'string' && value.trim().length > 0)
+      .join('\n')
+      .trim();
+    return { ok: false, output };
+  }
+}
+
+function findOnPath(command: string): string | undefined {
+  const directories = (process.env.PATH ?? '').split(path.delimiter).filter((directory) => directory.length > 0);
+  const extensions =
+    process.platform === 'win32' ? ['', ...(process.env.PATHEXT ?? '.EXE;.CMD;.BAT').split(';')] : [''];
+  for (const directory of directories) {
+    for (const extension of extensions) {
+      const candidate = path.join(directory, `${command}${extension}`);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function locateCommand(candidate: string): string | undefined {
+  if (!path.isAbsolute(candidate)) {
+    return findOnPath(candidate);
+  }
+
+  return fs.existsSync(candidate) ? candidate : undefined;
+}
+
+export function checkCodexCandidates(configuredCommandPath: string): { check: DiagnosticCheck; resolved?: string } {
+  const lines: string[] = [];
+  let resolved: string | undefined;
+  for (const candidate of listCommandCandidates(configuredCommandPath)) {
+    const location = locateCommand(candidate);
+    if (!location) {
+      lines.push(`missing ${candidate}`);
+      continue;
+    }
+
+    lines.push(location === candidate ? `found   ${candidate}` : `found   ${candidate} -> ${location}`);
+    if (!resolved) {
+      resolved = candidate;
+    }
+  }
+
+  return {
+    check: {
+      name: 'Codexコマンドの解決',
+      status: resolved ? 'pass' : 'fail',
+      detail: lines.join('\n')
+    },
+    resolved
+  };
+}
+
+export async function checkCodexVersion(commandPath: string): Promise<DiagnosticCheck> {
+  const result = await probe(commandPath, ['--version']);
+  return { name: 'codex --version', status: result.ok ? 'pass' : 'fail', detail: tail(result.output, 1000) };
+}
+
+export async function checkCodexLogin(commandPath: string): Promise<DiagnosticCheck> {
+  const result = await probe(commandPath, ['login', 'status']);
+  return { name: 'Codexのログイン状態', status: result.ok ? 'pass' : 'fail', detail: tail(result.output, 1000) };
+}
+
+export async function checkModel(
+  generator: CommitMessageGenerator,
+  cwd: string,
+  timeoutMs: number,
+  output: vscode.OutputChannel
+): Promise<DiagnosticCheck> {
+  const name = `モデル ${generator.model} の応答（${generator.label}）`;
+  try {
+    const reply = await generator.generate({ prompt: MODEL_TEST_PROMPT, cwd, timeoutMs, output });
+    return { name, status: 'pass', detail: tail(reply.trim(), 200) };
+  } catch (error) {
+    if (error instanceof GeneratorError) {
+      const details = error.details ? `\n${tail(error.details, 1000)}` : '';
+      return { name, status: 'fail', detail: `${error.code}: ${error.message}${details}` };
+    }
+
+    return { name, status: 'fail', detail: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function checkGit(cwd: string): Promise<DiagnosticCheck> {
+  const result = await probe('git', ['--version'], cwd);
+  return { name: 'git', status: result.ok ? 'pass' : 'fail', detail: result.output };
+}
+
+export async function checkGitIdentity(repositoryPath: string | undefined): Promise<DiagnosticCheck> {
+  const scopeArgs = repositoryPath ? ['-C', repositoryPath, 'config'] : ['config', '--global'];
+  const name = await probe('git', [...scopeArgs, 'user.name']);
+  const email = await probe('git', [...scopeArgs, 'user.email']);
+  return {
+    name: 'git user.name / user.email',
+    status: name.ok && email.ok && name.output && email.output ? 'pass' : 'fail',
+    detail: [
+      `user.name: ${name.ok && name.output ? name.output : '(未設定)'}`,
+      `user.email: ${email.ok && email.output ? email.output : '(未設定)'}`
+    ].join('\n')
+  };
+}
+
+export function renderDiagnosticReport(environment: string[], checks: DiagnosticCheck[]): string {
+  const lines = ['Codex Commit Push 診断レポート', `作成日時: ${new Date().toISOString()}`, '', ...environment, ''];
+  for (const check of checks) {
+    lines.push(`[${check.status.toUpperCase()}] ${check.name}`);
+    if (check.detail) {
+      lines.push(...check.detail.split('\n').map((line) => `    ${line}`));
+    }
+
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,303 @@
+export type FilePriority = 'normal' | 'low' | 'binary';
+
+export interface FileDiff {
+  path: string;
+  text: string;
+  priority: FilePriority;
+  added: number;
+  deleted: number;
+}
+
+export interface BudgetedDiff {
+  sections: Map<FileDiff, string>;
+  elisions: string[];
+  omittedBinaryFiles: string[];
+}
+
+export type ReducedDiffLoader = (file: FileDiff) => Promise<string | undefined>;
+
+const LOCKFILE_NAMES = new Set([
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+  'Cargo.lock',
+  'Gemfile.lock',
+  'composer.lock',
+  'poetry.lock',
+  'Pipfile.lock',
+  'go.sum',
+  'packages.lock.json'
+]);
+
+const GENERATED_PATTERNS = [
+  /(^|\/)(dist|out|build|coverage|vendor|node_modules)\//,
+  /(^|\/)__generated__\//,
+  /\.min\.(js|css)$/,
+  /\.map$/,
+  /\.snap$/,
+  /\.lock$/,
+  /\.generated\.[^/]+$/,
+  /\.pb\.[^/]+$/
+];
+
+const BINARY_DIFF_PATTERN = /^(Binary files .* differ|GIT binary patch)$/m;
+const DIFF_HEADER_PATTERN = /^diff --git a\/(.+) b\/(.+)$/;
+
+function classifyFile(filePath: string, text: string): FilePriority {
+  if (BINARY_DIFF_PATTERN.test(text)) {
+    return 'binary';
+  }
+
+  const baseName = filePath.split('/').pop() ?? filePath;
+  if (LOCKFILE_NAMES.has(baseName) || GENERATED_PATTERNS.some((pattern) => pattern.test(filePath))) {
+    return 'low';
+  }
+
+  return 'normal';
+}
+
+function countChangedLines(text: string): { added: number; deleted: number } {
+  let added = 0;
+  let deleted = 0;
+  for (const line of text.split('\n')) {
+    if (line.startsWith('+') && !line.startsWith('+++')) {
+      added += 1;
+    } else if (line.startsWith('-') && !line.startsWith('---')) {
+      deleted += 1;
+    }
+  }
+
+  return { added, deleted };
+}
+
+const C_QUOTE_ESCAPES: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, '"': 34, '\\': 92 };
+
+function unquoteGitPath(value: string): string {
+  if (value.length < 2 || !value.startsWith('"') || !value.endsWith('"')) {
+    return value;
+  }
+
+  const bytes: number[] = [];
+  const body = value.slice(1, -1);
+  for (let index = 0; index < body.length; index += 1) {
+    const char = body.charAt(index);
+    if (char !== '\\') {
+      bytes.push(...Buffer.from(char, 'utf8'));
+      continue;
+    }
+
+    const octal = /^[0-7]{3}/.exec(body.slice(index + 1));
+    if (octal) {
+      bytes.push(Number.parseInt(octal[0], 8));
+      index += 3;
+      continue;
+    }
+
+    const next = body.charAt(index + 1);
+    bytes.push(C_QUOTE_ESCAPES[next] ?? next.charCodeAt(0));
+    index += 1;
+  }
+
+  return Buffer.from(bytes).toString('utf8');
+}
+
+function parseHeaderPath(line: string, prefix: string): string | undefined {
+  const value = unquoteGitPath(line.slice(4).replace(/\t$/, ''));
+  return value.startsWith(prefix) ? value.slice(prefix.length) : undefined;
+}
+
+function resolveSectionPath(lines: string[]): string {
+  const firstHunkIndex = lines.findIndex((line) => line.startsWith('@@'));
+  const headerLines = firstHunkIndex < 0 ? lines : lines.slice(0, firstHunkIndex);
+  const newPathLine = headerLines.find((line) => line.startsWith('+++ '));
+  const newPath = newPathLine ? parseHeaderPath(newPathLine, 'b/') : undefined;
+  if (newPath) {
+    return newPath;
+  }
+
+  const oldPathLine = headerLines.find((line) => line.startsWith('--- '));
+  const oldPath = oldPathLine ? parseHeaderPath(oldPathLine, 'a/') : undefined;
+  if (oldPath) {
+    return oldPath;
+  }
+
+  const header = DIFF_HEADER_PATTERN.exec(lines[0] ?? '');
+  return header?.[2] ?? lines[0] ?? '';
+}
+
+export function createFileDiff(filePath: string, text: string): FileDiff {
+  return {
+    path: filePath,
+    text,
+    priority: classifyFile(filePath, text),
+    ...countChangedLines(text)
+  };
+}
+
+export function splitDiffByFile(diffText: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let current: string[] = [];
+
+  const flush = (): void => {
+    if (current.length === 0) {
+      return;
+    }
+
+    const text = current.join('\n').trimEnd();
+    files.push(createFileDiff(resolveSectionPath(current), text));
+    current = [];
+  };
+
+  for (const line of diffText.split(/\r?\n/g)) {
+    if (line.startsWith('diff --git ')) {
+      flush();
+    }
+
+    current.push(line);
+  }
+
+  flush();
+  return files;
+}
+
+function elidedHunksMarker(count: number): string {
+  return `[${count} more hunk(s) elided]`;
+}
+
+function shrinkByHunks(text: string, budget: number): { text: string; elidedHunks: number; totalHunks: number } {
+  const lines = text.split('\n');
+  const firstHunkIndex = lines.findIndex((line) => line.startsWith('@@'));
+  if (firstHunkIndex < 0) {
+    return { text: text.slice(0, budget), elidedHunks: 0, totalHunks: 0 };
+  }
+
+  const header = lines.slice(0, firstHunkIndex).join('\n');
+  const hunks: string[] = [];
+  let currentHunk: string[] = [];
+  for (const line of lines.slice(firstHunkIndex)) {
+    if (line.startsWith('@@') && currentHunk.length > 0) {
+      hunks.push(currentHunk.join('\n'));
+      currentHunk = [];
+    }
+
+    currentHunk.push(line);
+  }
+
+  hunks.push(currentHunk.join('\n'));
+
+  const fitsWhole = header.length + hunks.reduce((sum, hunk) => sum + hunk.length + 1, 0) <= budget;
+  const markerRoom = fitsWhole ? 0 : elidedHunksMarker(hunks.length).length + 1;
+  const hunkBudget = budget - markerRoom;
+  const kept: string[] = [header];
+  let used = header.length;
+  for (const hunk of hunks) {
+    if (used + hunk.length + 1 > hunkBudget) {
+      break;
+    }
+
+    kept.push(hunk);
+    used += hunk.length + 1;
+  }
+
+  let keptHunks = kept.length - 1;
+  if (keptHunks === 0) {
+    const room = Math.max(0, hunkBudget - used - 1);
+    const partialLines: string[] = [];
+    let partialLength = 0;
+    for (const line of hunks[0].split('\n')) {
+      if (partialLength + line.length + 1 > room) {
+        break;
+      }
+
+      partialLines.push(line);
+      partialLength += line.length + 1;
+    }
+
+    if (partialLines.length > 0) {
+      kept.push(partialLines.join('\n'));
+      keptHunks = 1;
+    }
+  }
+
+  const elidedHunks = hunks.length - keptHunks;
+  if (elidedHunks > 0) {
+    kept.push(elidedHunksMarker(elidedHunks));
+  }
+
+  return { text: kept.join('\n'), elidedHunks, totalHunks: hunks.length };
+}
+
+async function fitFileDiff(
+  file: FileDiff,
+  share: number,
+  loadReducedDiff: ReducedDiffLoader,
+  elisions: string[]
+): Promise<string> {
+  if (file.text.length <= share) {
+    return file.text;
+  }
+
+  let text = file.text;
+  const reduced = await loadReducedDiff(file);
+  if (reduced && reduced.length < text.length) {
+    text = reduced;
+    if (text.length <= share) {
+      elisions.push(`${file.path}: context reduced to 1 line`);
+      return text;
+    }
+  }
+
+  const shrunk = shrinkByHunks(text, share);
+  elisions.push(`${file.path}: ${shrunk.elidedHunks} of ${shrunk.totalHunks} hunk(s) elided`);
+  return shrunk.text;
+}
+
+export async function allocateDiffBudget(
+  files: FileDiff[],
+  budget: number,
+  loadReducedDiff: ReducedDiffLoader
+): Promise<BudgetedDiff> {
+  const elisions: string[] = [];
+  const included = new Map<FileDiff, string>();
+  let remaining = Math.max(0, budget);
+  const omittedBinaryFiles = files.filter((file) => file.priority === 'binary').map((file) => file.path);
+
+  for (const priority of ['normal', 'low'] as const) {
+    const group = files
+      .filter((file) => file.priority === priority)
+      .sort((left, right) => left.text.length - right.text.length);
+
+    for (const [index, file] of group.entries()) {
+      const share = Math.floor(remaining / (group.length - index));
+      if (priority === 'low' && file.text.length > share) {
+        elisions.push(`${file.path}: content omitted (lockfile or generated file)`);
+        continue;
+      }
+
+      const text = await fitFileDiff(file, share, loadReducedDiff, elisions);
+      included.set(file, text);
+      remaining = Math.max(0, remaining - text.length - 1);
+    }
+  }
+
+  return { sections: included, elisions, omittedBinaryFiles };
+}
+
+export function joinFileSections(files: FileDiff[], sections: Map<FileDiff, string>): string {
+  return files
+    .map((file) => sections.get(file))
+    .filter((section): section is string => section !== undefined)
+    .join('\n');
+}
+
+export function formatFileSummary(files: FileDiff[], statusByPath: Map<string, string>): string {
+  return files
+    .map((file) => {
+      const status = statusByPath.get(file.path) ?? 'M';
+      const stats = file.priority === 'binary' ? 'binary' : `+${file.added} -${file.deleted}`;
+      return `${status}\t${file.path} (${stats})`;
+    })
+    .join('\n');
+}
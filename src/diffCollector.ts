@@ -1,51 +1,95 @@
-import { execFile } from 'child_process';
-import { promisify } from 'util';
+import * as fs from 'fs';
+import * as path from 'path';
 import * as vscode from 'vscode';
+import {
+  FileDiff,
+  allocateDiffBudget,
+  createFileDiff,
+  formatFileSummary,
+  joinFileSections,
+  splitDiffByFile
+} from './diffBudget';
+import { toErrorMessage } from './errors';
+import { runGit } from './gitCli';
+import { matchPathGlob } from './glob';
+import { RedactionFinding, RedactionOptions, redactFileDiffs, redactText } from './redaction';
 
-const execFileAsync = promisify(execFile);
-const GIT_TIMEOUT_MS = 30_000;
-const GIT_MAX_BUFFER_BYTES = 16 * 1024 * 1024;
+const SECTION_OVERHEAD_CHARS = 32;
+const UNTRACKED_PREVIEW_MAX_FILES = 50;
+const CHECK_ATTR_BATCH_SIZE = 100;
+const BINARY_SNIFF_BYTES = 8000;
+
+export type DiffSource = 'staged' | 'workingTree' | 'all';
+
+export interface AmendDiffBase {
+  parent: string;
+  includeStaged: boolean;
+}
 
 export interface DiffCollectOptions {
   repositoryPath: string;
+  source: DiffSource;
   includeUntracked: boolean;
+  untrackedPreviewMaxBytes: number;
   maxChars: number;
+  redaction?: RedactionOptions;
+  amend?: AmendDiffBase;
   output: vscode.OutputChannel;
 }
 
+export interface DiffStats {
+  files: number;
+  added: number;
+  deleted: number;
+}
+
 export interface DiffCollectResult {
   diffText: string;
+  stats: DiffStats;
   trackedDiff: string;
   untrackedFiles: string[];
+  elisions: string[];
+  omittedBinaryFiles: string[];
+  redactions: RedactionFinding[];
+  excludedFiles: string[];
   wasTruncated: boolean;
 }
 
-function toErrorMessage(error: unknown): string {
-  if (error instanceof Error) {
-    return error.message;
+async function resolveDiffBaseArgs(
+  repositoryPath: string,
+  source: DiffSource,
+  output: vscode.OutputChannel
+): Promise<string[]> {
+  if (source === 'staged') {
+    return ['diff', '--cached'];
   }
 
-  return String(error);
+  try {
+    await runGit(repositoryPath, ['rev-parse', '--verify', '--quiet', 'HEAD']);
+    return ['diff', 'HEAD'];
+  } catch (error) {
+    output.appendLine(`[diff] HEAD is unavailable, fallback to git diff --: ${toErrorMessage(error)}`);
+    return ['diff'];
+  }
 }
 
-async function runGit(repositoryPath: string, args: string[]): Promise<string> {
-  const result = await execFileAsync('git', ['-C', repositoryPath, ...args], {
-    encoding: 'utf8',
-    windowsHide: true,
-    timeout: GIT_TIMEOUT_MS,
-    maxBuffer: GIT_MAX_BUFFER_BYTES
-  });
-
-  return result.stdout ?? '';
-}
+async function getNameStatus(repositoryPath: string, baseArgs: string[]): Promise<Map<string, string>> {
+  const stdout = await runGit(repositoryPath, [...baseArgs, '--name-status', '-z', '--']);
+  const fields = stdout.split('\0');
+  const statusByPath = new Map<string, string>();
+  for (let index = 0; index < fields.length; ) {
+    const status = fields[index];
+    const pathCount = status.startsWith('R') || status.startsWith('C') ? 2 : 1;
+    const filePath = fields[index + pathCount];
+    index += pathCount + 1;
+    if (!status || !filePath) {
+      continue;
+    }
 
-async function getTrackedDiff(repositoryPath: string, output: vscode.OutputChannel): Promise<string> {
-  try {
-    return await runGit(repositoryPath, ['diff', 'HEAD', '--']);
-  } catch (error) {
-    output.appendLine(`[diff] git diff HEAD -- failed, fallback to git diff --: ${toErrorMessage(error)}`);
-    return runGit(repositoryPath, ['diff', '--']);
+    statusByPath.set(filePath, status.charAt(0));
   }
+
+  return statusByPath;
 }
 
 async function getUntrackedFiles(repositoryPath: string): Promise<string[]> {
@@ -56,6 +100,108 @@ async function getUntrackedFiles(repositoryPath: string): Promise<string[]> {
     .filter((line) => line.length > 0);
 }
 
+async function getBinaryAttributeFiles(repositoryPath: string, files: string[]): Promise<Set<string>> {
+  const binaryFiles = new Set<string>();
+  for (let start = 0; start < files.length; start += CHECK_ATTR_BATCH_SIZE) {
+    const batch = files.slice(start, start + CHECK_ATTR_BATCH_SIZE);
+    const stdout = await runGit(repositoryPath, ['check-attr', '-z', 'binary', 'diff', '--', ...batch]);
+    const fields = stdout.split('\0');
+    for (let index = 0; index + 2 < fields.length; index += 3) {
+      const [file, attribute, value] = fields.slice(index, index + 3);
+      if ((attribute === 'binary' && value === 'set') || (attribute === 'diff' && value === 'unset')) {
+        binaryFiles.add(file);
+      }
+    }
+  }
+
+  return binaryFiles;
+}
+
+function buildNewFileDiff(file: string, content: Buffer, totalBytes: number, maxBytes: number): string {
+  const header = [`diff --git a/${file} b/${file}`, 'new file mode 100644'];
+  if (content.subarray(0, BINARY_SNIFF_BYTES).includes(0)) {
+    return [...header, `Binary files /dev/null and b/${file} differ`].join('\n');
+  }
+
+  const lines = content.toString('utf8').replace(/\r?\n$/, '').split(/\r?\n/g);
+  const isPartialRead = content.length < totalBytes;
+  if (isPartialRead) {
+    lines.pop();
+  }
+
+  const shown: string[] = [];
+  let shownBytes = 0;
+  for (const line of lines) {
+    if (shownBytes + line.length + 1 > maxBytes) {
+      break;
+    }
+
+    shown.push(`+${line}`);
+    shownBytes += line.length + 1;
+  }
+
+  const result = [...header, '--- /dev/null', `+++ b/${file}`, `@@ -0,0 +1,${shown.length} @@`, ...shown];
+  if (isPartialRead || shown.length < lines.length) {
+    result.push(`[file truncated: showing ${shownBytes} of ${totalBytes} bytes]`);
+  }
+
+  return result.join('\n');
+}
+
+async function buildUntrackedFileDiffs(
+  repositoryPath: string,
+  files: string[],
+  maxBytes: number,
+  output: vscode.OutputChannel
+): Promise<FileDiff[]> {
+  const previewFiles = files.filter((file) => !file.endsWith('/')).slice(0, UNTRACKED_PREVIEW_MAX_FILES);
+  if (files.length > previewFiles.length) {
+    output.appendLine(
+      `[diff] Previewing ${previewFiles.length} of ${files.length} untracked file(s). The rest are listed by name only.`
+    );
+  }
+
+  let binaryFiles = new Set<string>();
+  try {
+    binaryFiles = await getBinaryAttributeFiles(repositoryPath, previewFiles);
+  } catch (error) {
+    output.appendLine(`[diff] Failed to read git attributes for untracked files: ${toErrorMessage(error)}`);
+  }
+
+  const diffs: FileDiff[] = [];
+  for (const file of previewFiles) {
+    if (binaryFiles.has(file)) {
+      diffs.push(createFileDiff(file, `diff --git a/${file} b/${file}\nBinary files /dev/null and b/${file} differ`));
+      continue;
+    }
+
+    try {
+      const absolutePath = path.join(repositoryPath, file);
+      const stat = await fs.promises.lstat(absolutePath);
+      if (!stat.isFile()) {
+        continue;
+      }
+
+      const handle = await fs.promises.open(absolutePath, 'r');
+      let content: Buffer;
+      try {
+        const length = Math.min(stat.size, Math.max(maxBytes, BINARY_SNIFF_BYTES));
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(buffer, 0, length, 0);
+        content = buffer.subarray(0, bytesRead);
+      } finally {
+        await handle.close();
+      }
+
+      diffs.push(createFileDiff(file, buildNewFileDiff(file, content, stat.size, maxBytes)));
+    } catch (error) {
+      output.appendLine(`[diff] Failed to read untracked file ${file}: ${toErrorMessage(error)}`);
+    }
+  }
+
+  return diffs;
+}
+
 function truncateDiffText(diffText: string, maxChars: number): { text: string; wasTruncated: boolean } {
   if (diffText.length <= maxChars) {
     return { text: diffText, wasTruncated: false };
@@ -67,34 +213,129 @@ function truncateDiffText(diffText: string, maxChars: number): { text: string; w
   };
 }
 
+export async function hasPendingChanges(
+  repositoryPath: string,
+  source: DiffSource,
+  includeUntracked: boolean
+): Promise<boolean> {
+  const stdout = await runGit(repositoryPath, ['status', '--porcelain=v1', '-z', '--untracked-files=normal']);
+  return stdout
+    .split('\0')
+    .filter((entry) => entry.length > 2 && entry.charAt(2) === ' ')
+    .some((entry) => {
+      const [indexStatus, workingTreeStatus] = entry;
+      if (indexStatus === '?') {
+        return source === 'all' && includeUntracked;
+      }
+
+      return indexStatus !== ' ' || (source !== 'staged' && workingTreeStatus !== ' ');
+    });
+}
+
 export async function collectDiffForPrompt(options: DiffCollectOptions): Promise<DiffCollectResult> {
-  const trackedDiff = await getTrackedDiff(options.repositoryPath, options.output);
+  const { repositoryPath, output } = options;
+  const baseArgs = options.amend
+    ? options.amend.includeStaged
+      ? ['diff', '--cached', options.amend.parent]
+      : ['diff', options.amend.parent, 'HEAD']
+    : await resolveDiffBaseArgs(repositoryPath, options.source, output);
+  const trackedDiff = await runGit(repositoryPath, [...baseArgs, '--']);
   let untrackedFiles: string[] = [];
 
-  if (options.includeUntracked) {
+  if (options.includeUntracked && options.source === 'all' && !options.amend) {
+    try {
+      untrackedFiles = await getUntrackedFiles(repositoryPath);
+    } catch (error) {
+      output.appendLine(`[diff] Failed to read untracked files: ${toErrorMessage(error)}`);
+    }
+  }
+
+  let trackedFiles = splitDiffByFile(trackedDiff.trim());
+  let statusByPath = new Map<string, string>();
+  if (trackedFiles.length > 0) {
     try {
-      untrackedFiles = await getUntrackedFiles(options.repositoryPath);
+      statusByPath = await getNameStatus(repositoryPath, baseArgs);
     } catch (error) {
-      options.output.appendLine(`[diff] Failed to read untracked files: ${toErrorMessage(error)}`);
+      output.appendLine(`[diff] Failed to read name-status summary: ${toErrorMessage(error)}`);
     }
   }
 
-  const sections: string[] = [];
-  if (trackedDiff.trim().length > 0) {
-    sections.push(`## Tracked Diff\n${trackedDiff.trim()}`);
+  let untrackedDiffs =
+    options.untrackedPreviewMaxBytes > 0
+      ? await buildUntrackedFileDiffs(repositoryPath, untrackedFiles, options.untrackedPreviewMaxBytes, output)
+      : [];
+  for (const file of untrackedDiffs) {
+    statusByPath.set(file.path, '?');
+  }
+
+  const previewedPaths = new Set(untrackedDiffs.map((file) => file.path));
+  let listedOnly = untrackedFiles.filter((file) => !previewedPaths.has(file));
+  let redactions: RedactionFinding[] = [];
+  let excludedFiles: string[] = [];
+  if (options.redaction) {
+    const excludePaths = options.redaction.excludePaths;
+    const trackedResult = redactFileDiffs(trackedFiles, options.redaction);
+    const untrackedResult = redactFileDiffs(untrackedDiffs, options.redaction);
+    const excludedListed = listedOnly.filter((file) => matchPathGlob(file, excludePaths));
+    trackedFiles = trackedResult.files;
+    untrackedDiffs = untrackedResult.files;
+    listedOnly = listedOnly.filter((file) => !excludedListed.includes(file));
+    redactions = [...trackedResult.findings, ...untrackedResult.findings];
+    excludedFiles = [...trackedResult.excludedFiles, ...untrackedResult.excludedFiles, ...excludedListed];
+  }
+
+  const files = [...trackedFiles, ...untrackedDiffs];
+  const stats: DiffStats = {
+    files: files.length + listedOnly.length,
+    added: files.reduce((sum, file) => sum + file.added, 0),
+    deleted: files.reduce((sum, file) => sum + file.deleted, 0)
+  };
+
+  const summarySection = files.length > 0 ? `## Changed Files\n${formatFileSummary(files, statusByPath)}` : '';
+  const listSection =
+    listedOnly.length > 0 ? `## Untracked Files (not previewed)\n${listedOnly.map((file) => `- ${file}`).join('\n')}` : '';
+  const heading = options.amend ? 'Amended Commit Diff' : options.source === 'staged' ? 'Staged Diff' : 'Tracked Diff';
+  const fixedLength = summarySection.length + listSection.length + heading.length + SECTION_OVERHEAD_CHARS * 2;
+
+  const redactedPaths = new Set([...excludedFiles, ...redactions.map((finding) => finding.path)]);
+  const budgeted = await allocateDiffBudget(files, options.maxChars - fixedLength, async (file) => {
+    if (statusByPath.get(file.path) !== 'M' || redactedPaths.has(file.path)) {
+      return undefined;
+    }
+
+    let reduced: string;
+    try {
+      reduced = (await runGit(repositoryPath, [...baseArgs, '-U1', '--', file.path])).trim();
+    } catch {
+      return undefined;
+    }
+
+    return options.redaction ? redactText(reduced, options.redaction, file.priority === 'normal').text : reduced;
+  });
+
+  const trackedText = joinFileSections(trackedFiles, budgeted.sections);
+  const untrackedText = joinFileSections(untrackedDiffs, budgeted.sections);
+  const sections = [summarySection];
+  if (trackedText) {
+    sections.push(`## ${heading}\n${trackedText}`);
   }
 
-  if (untrackedFiles.length > 0) {
-    const list = untrackedFiles.map((file) => `- ${file}`).join('\n');
-    sections.push(`## Untracked Files\n${list}`);
+  if (untrackedText) {
+    sections.push(`## Untracked Files\n${untrackedText}`);
   }
 
-  const combined = sections.join('\n\n');
+  sections.push(listSection);
+  const combined = sections.filter((section) => section.length > 0).join('\n\n');
   if (!combined) {
     return {
       diffText: '',
+      stats,
       trackedDiff,
       untrackedFiles,
+      elisions: [],
+      omittedBinaryFiles: [],
+      redactions,
+      excludedFiles,
       wasTruncated: false
     };
   }
@@ -102,8 +343,13 @@ export async function collectDiffForPrompt(options: DiffCollectOptions): Promise
   const { text, wasTruncated } = truncateDiffText(combined, options.maxChars);
   return {
     diffText: text,
+    stats,
     trackedDiff,
     untrackedFiles,
-    wasTruncated
+    elisions: budgeted.elisions,
+    omittedBinaryFiles: budgeted.omittedBinaryFiles,
+    redactions,
+    excludedFiles,
+    wasTruncated: wasTruncated || budgeted.elisions.length > 0
   };
 }
@@ -1,35 +1,141 @@
+import * as os from 'os';
+import * as path from 'path';
 import * as vscode from 'vscode';
+import { hasStagedChanges, listRemoteBranchesContaining, resolveAmendParent } from './amend';
+import { AutoPushStatusBar } from './autoPushStatusBar';
+import { reviewBatchMessages } from './batchPicker';
 import { execFile } from 'child_process';
 import { promisify } from 'util';
-import { CodexCliError, ReasoningEffort, generateCommitMessageWithCodex } from './codexCli';
-import { collectDiffForPrompt } from './diffCollector';
-import { GitAPI, GitRepository, getGitApi, repositoryKey, resolveRepository } from './gitApi';
-import { buildCommitMessagePrompt } from './prompt';
-import { PendingCommitState } from './state';
+import {
+  appendTrailers,
+  extractTrailers,
+  normalizeCommitMessage,
+  stripSignoffTrailers,
+  wrapMessageBody
+} from './commitMessage';
+import { pickCommitMessageCandidate } from './candidatePicker';
+import { pickCoAuthors } from './coAuthorPicker';
+import { collectRecentCommitSubjects } from './commitExamples';
+import { formatLintViolation, lintCommitMessage } from './commitLint';
+import {
+  CommitPlanGroup,
+  listPlanFiles,
+  normalizeCommitPlan,
+  stageCommitPlanGroup,
+  unstageAllChanges
+} from './commitPlan';
+import { reviewCommitPlan } from './commitPlanPicker';
+import { CommitFailureError, CommitOptions, commitWithOptions } from './commitRunner';
+import { ReasoningEffort, buildCommandCandidates } from './codexCli';
+import { mapWithConcurrency } from './concurrency';
+import {
+  DiagnosticCheck,
+  checkCodexCandidates,
+  checkCodexLogin,
+  checkCodexVersion,
+  checkGit,
+  checkGitIdentity,
+  checkModel,
+  renderDiagnosticReport
+} from './diagnostics';
+import { AmendDiffBase, DiffSource, DiffStats, collectDiffForPrompt, hasPendingChanges } from './diffCollector';
+import { toErrorMessage } from './errors';
+import {
+  CommitMessageGenerator,
+  GenerateRequest,
+  GeneratorError,
+  generateCommitMessage,
+  tail,
+  generateCommitMessageCandidates,
+  generateCommitPlan
+} from './generator';
+import {
+  ForcePushMode,
+  GitAPI,
+  GitCommit,
+  GitRepository,
+  findActiveRepository,
+  getGitApi,
+  repositoryKey,
+  resolveRepository
+} from './gitApi';
+import { GenerationHistory, GenerationHistoryEntry } from './history';
+import { pickHistoryEntry } from './historyPicker';
+import { buildCommitMessagePrompt, buildCommitPlanPrompt, buildRepairPrompt } from './prompt';
+import { GeneratorProvider, ProviderSettings, createGenerator } from './providers';
+import { EditedMessagePolicy, PushDecision, PushPolicy, decidePush } from './pushPolicy';
+import { askBehindResolution, confirmEditedMessagePush, countCommitsBehind, pullRebase } from './pushSafety';
+import { PendingCommitState, isPendingExpired } from './state';
+import { PreviewContentProvider, PreviewSection, PREVIEW_SCHEME, renderPreviewDocument } from './preview';
+import { RedactionFinding, compileCustomPatterns } from './redaction';
+import {
+  REPOSITORY_CONFIG_FILE_NAME,
+  RepositoryConfig,
+  createSettingsSource,
+  loadRepositoryConfig
+} from './repositoryConfig';
+import { ResponseCache, withResponseCache } from './responseCache';
+import { ResolvedStyleProfile, resolveStyleProfile } from './styleProfiles';
+import { TicketPlacement, applyTicketReferences, extractTickets, stripTicketReferences } from './ticketReference';
 
 const COMMAND_ID = 'codexCommitPush.generateCommitMessage';
+const FORCE_COMMAND_ID = 'codexCommitPush.generateCommitMessageForce';
+const CANDIDATES_COMMAND_ID = 'codexCommitPush.generateCommitMessageCandidates';
+const HISTORY_COMMAND_ID = 'codexCommitPush.showGenerationHistory';
+const DISARM_COMMAND_ID = 'codexCommitPush.disarmAutoPush';
+const AMEND_COMMAND_ID = 'codexCommitPush.amendCommitMessage';
+const PLAN_COMMAND_ID = 'codexCommitPush.planCommits';
+const BATCH_COMMAND_ID = 'codexCommitPush.generateForAllRepositories';
+const PREVIEW_COMMAND_ID = 'codexCommitPush.previewGeneration';
+const DIAGNOSE_COMMAND_ID = 'codexCommitPush.diagnose';
 const CONFIG_NAMESPACE = 'codexCommitPush';
 const OUTPUT_CHANNEL_NAME = 'Codex Commit Push';
 const execFileAsync = promisify(execFile);
+const DEFAULT_EXAMPLE_EXCLUDE_AUTHORS = ['*[bot]', 'dependabot*', 'renovate*'];
+const DEFAULT_REDACTION_EXCLUDE_PATHS = [
+  '.env',
+  '.env.*',
+  '*.pem',
+  '*.key',
+  '*.p12',
+  '*.pfx',
+  'id_rsa*',
+  'id_ed25519*'
+];
 
-interface ExtensionSettings {
-  model: string;
-  reasoningEffort: ReasoningEffort;
+interface ExtensionSettings extends ProviderSettings {
+  diffSource: DiffSource;
   includeUntracked: boolean;
+  untrackedPreviewMaxBytes: number;
   diffMaxChars: number;
+  exampleCount: number;
+  exampleExcludeAuthors: string[];
+  exampleMaxChars: number;
+  redactionEnabled: boolean;
+  redactionCustomPatterns: string[];
+  redactionExcludePaths: string[];
+  abortOnSecrets: boolean;
   timeoutSeconds: number;
-  codexCommandPath: string;
   autoCommitAfterGenerate: boolean;
-  pushRemote: string;
-  pushBranch: string;
-}
-
-function toErrorMessage(error: unknown): string {
-  if (error instanceof Error) {
-    return error.message;
-  }
-
-  return String(error);
+  pendingExpiryMinutes: number;
+  candidateCount: number;
+  planMaxCommits: number;
+  batchConcurrency: number;
+  pushPolicy: PushPolicy;
+  editedMessagePolicy: EditedMessagePolicy;
+  checkRemoteBeforePush: boolean;
+  style: ResolvedStyleProfile;
+  lintDisabledRules: string[];
+  lintMaxRepairAttempts: number;
+  ticketPattern: string;
+  ticketPlacement: TicketPlacement;
+  ticketTrailerKey: string;
+  commitOptions: CommitOptions;
+  commitTrailers: string[];
+  coAuthorRoster: string[];
+  amendIncludeStaged: boolean;
+  cacheEnabled: boolean;
+  repositoryConfig: RepositoryConfig | undefined;
 }
 
 function toErrorDetails(error: unknown): string {
@@ -47,8 +153,19 @@ function toErrorDetails(error: unknown): string {
   return JSON.stringify(shaped, null, 2);
 }
 
-function getSettings(): ExtensionSettings {
-  const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
+function getSettings(scope?: vscode.Uri): ExtensionSettings {
+  const workspaceConfig = vscode.workspace.getConfiguration(CONFIG_NAMESPACE, scope);
+  const repositoryConfig =
+    scope && workspaceConfig.get<boolean>('repositoryConfig.enabled', true)
+      ? loadRepositoryConfig(scope.fsPath)
+      : undefined;
+  const config = createSettingsSource(workspaceConfig, repositoryConfig);
+
+  const providerRaw = config.get<string>('provider', 'codex');
+  const providerOptions: GeneratorProvider[] = ['codex', 'openaiCompatible', 'command'];
+  const provider = providerOptions.includes(providerRaw as GeneratorProvider)
+    ? (providerRaw as GeneratorProvider)
+    : 'codex';
 
   const model = config.get<string>('model', 'gpt-5.3-codex');
   const reasoningEffortRaw = config.get<string>('reasoningEffort', 'high');
@@ -57,34 +174,137 @@ function getSettings(): ExtensionSettings {
     ? (reasoningEffortRaw as ReasoningEffort)
     : 'high';
 
+  const diffSourceRaw = config.get<string>('diffSource', 'all');
+  const diffSourceOptions: DiffSource[] = ['staged', 'workingTree', 'all'];
+  const diffSource = diffSourceOptions.includes(diffSourceRaw as DiffSource) ? (diffSourceRaw as DiffSource) : 'all';
+
   const includeUntracked = config.get<boolean>('includeUntracked', true);
+  const untrackedPreviewMaxBytes = Math.max(0, config.get<number>('untrackedPreviewMaxBytes', 4000));
   const diffMaxChars = Math.max(1000, config.get<number>('diffMaxChars', 12000));
+  const exampleCount = Math.min(50, Math.max(0, Math.floor(config.get<number>('examples.recentCommitCount', 0))));
+  const exampleExcludeAuthors = config.get<string[]>('examples.excludeAuthors', DEFAULT_EXAMPLE_EXCLUDE_AUTHORS);
+  const exampleMaxChars = Math.min(
+    Math.floor(diffMaxChars / 2),
+    Math.max(0, config.get<number>('examples.maxChars', 1500))
+  );
+  const redactionEnabled = config.get<boolean>('redaction.enabled', true);
+  const redactionCustomPatterns = config.get<string[]>('redaction.customPatterns', []);
+  const redactionExcludePaths = config.get<string[]>('redaction.excludePaths', DEFAULT_REDACTION_EXCLUDE_PATHS);
+  const abortOnSecrets = config.get<boolean>('redaction.abortOnSecrets', false);
   const timeoutSeconds = Math.max(10, config.get<number>('timeoutSeconds', 90));
   const codexCommandPath = config.get<string>('codexCommandPath', 'codex');
+  const httpBaseUrl = config.get<string>('http.baseUrl', 'http://localhost:11434/v1');
+  const httpModel = config.get<string>('http.model', '');
+  const httpApiKeyEnvVar = config.get<string>('http.apiKeyEnvVar', 'OPENAI_API_KEY');
+  const commandPath = config.get<string>('command.path', '');
+  const commandArgs = config.get<string[]>('command.args', []);
   const autoCommitAfterGenerate = config.get<boolean>('autoCommitAfterGenerate', true);
-  const pushRemote = config.get<string>('pushRemote', 'origin');
+  const pendingExpiryMinutes = Math.max(0, config.get<number>('pendingExpiryMinutes', 60));
+  const candidateCount = Math.min(10, Math.max(2, Math.floor(config.get<number>('candidateCount', 3))));
+  const planMaxCommits = Math.min(20, Math.max(2, Math.floor(config.get<number>('plan.maxCommits', 5))));
+  const batchConcurrency = Math.min(8, Math.max(1, Math.floor(config.get<number>('batch.concurrency', 3))));
   const pushBranch = config.get<string>('pushBranch', 'main');
+  const pushAllowedBranches = config.get<string[]>('pushAllowedBranches', []);
+  const pushPolicy: PushPolicy = {
+    remote: config.get<string>('pushRemote', 'origin'),
+    allowedBranches: pushAllowedBranches.length > 0 ? pushAllowedBranches : [pushBranch],
+    deniedBranches: config.get<string[]>('pushDeniedBranches', [])
+  };
+  const editedMessagePolicyRaw = config.get<string>('editedMessagePolicy', 'ask');
+  const editedMessagePolicyOptions: EditedMessagePolicy[] = ['push', 'ask', 'skip'];
+  const editedMessagePolicy = editedMessagePolicyOptions.includes(editedMessagePolicyRaw as EditedMessagePolicy)
+    ? (editedMessagePolicyRaw as EditedMessagePolicy)
+    : 'ask';
+  const checkRemoteBeforePush = config.get<boolean>('checkRemoteBeforePush', true);
+  const resolvedStyle = resolveStyleProfile(
+    config.get<string>('styleProfile', 'japanese'),
+    config.get<Record<string, unknown>>('styleProfiles', {})
+  );
+  const promptInstructions = config.get<string>('promptInstructions', '').trim();
+  const style: ResolvedStyleProfile = promptInstructions
+    ? {
+        name: resolvedStyle.name,
+        profile: {
+          ...resolvedStyle.profile,
+          customInstructions: [resolvedStyle.profile.customInstructions, promptInstructions].filter(Boolean).join('\n')
+        }
+      }
+    : resolvedStyle;
+
+  const lintDisabledRules = config.get<string[]>('lint.disabledRules', []);
+  const lintMaxRepairAttempts = Math.min(5, Math.max(0, Math.floor(config.get<number>('lint.maxRepairAttempts', 2))));
+
+  const ticketPattern = config.get<string>('ticket.branchPattern', '');
+  const ticketPlacementRaw = config.get<string>('ticket.placement', 'prefix');
+  const ticketPlacementOptions: TicketPlacement[] = ['prefix', 'suffix', 'trailer'];
+  const ticketPlacement = ticketPlacementOptions.includes(ticketPlacementRaw as TicketPlacement)
+    ? (ticketPlacementRaw as TicketPlacement)
+    : 'prefix';
+  const ticketTrailerKey = config.get<string>('ticket.trailerKey', 'Refs').trim() || 'Refs';
+
+  const commitOptions: CommitOptions = {
+    signoff: config.get<boolean>('commit.signoff', false),
+    signCommit: config.get<boolean>('commit.sign', false),
+    noVerify: config.get<boolean>('commit.noVerify', false)
+  };
+  const commitTrailers = config
+    .get<Array<{ key?: unknown; value?: unknown }>>('commit.trailers', [])
+    .filter((trailer) => typeof trailer.key === 'string' && typeof trailer.value === 'string')
+    .map((trailer) => `${String(trailer.key).trim()}: ${String(trailer.value).trim()}`);
+  const coAuthorRoster = config.get<string[]>('commit.coAuthorRoster', []).filter((entry) => entry.trim().length > 0);
+
+  const amendIncludeStaged = config.get<boolean>('amend.includeStaged', false);
+  const cacheEnabled = config.get<boolean>('cache.enabled', true);
 
   return {
+    provider,
     model,
     reasoningEffort,
+    diffSource,
     includeUntracked,
+    untrackedPreviewMaxBytes,
     diffMaxChars,
+    exampleCount,
+    exampleExcludeAuthors,
+    exampleMaxChars,
+    redactionEnabled,
+    redactionCustomPatterns,
+    redactionExcludePaths,
+    abortOnSecrets,
     timeoutSeconds,
     codexCommandPath,
+    httpBaseUrl,
+    httpModel,
+    httpApiKeyEnvVar,
+    commandPath,
+    commandArgs,
     autoCommitAfterGenerate,
-    pushRemote,
-    pushBranch
+    pendingExpiryMinutes,
+    candidateCount,
+    planMaxCommits,
+    batchConcurrency,
+    pushPolicy,
+    editedMessagePolicy,
+    checkRemoteBeforePush,
+    style,
+    lintDisabledRules,
+    lintMaxRepairAttempts,
+    ticketPattern,
+    ticketPlacement,
+    ticketTrailerKey,
+    commitOptions,
+    commitTrailers,
+    coAuthorRoster,
+    amendIncludeStaged,
+    cacheEnabled,
+    repositoryConfig
   };
 }
 
-function firstLine(text: string): string {
-  return text.split(/\r?\n/g)[0]?.trim() ?? '';
-}
-
 function registerCommitListeners(
   api: GitAPI,
   pendingState: PendingCommitState,
+  history: GenerationHistory,
   output: vscode.OutputChannel,
   pushInFlight: Set<string>
 ): vscode.Disposable {
@@ -97,7 +317,7 @@ function registerCommitListeners(
     }
 
     const disposable = repository.onDidCommit(() => {
-      void handleCommitEvent(repository, pendingState, output, pushInFlight, false);
+      void handleCommitEvent(repository, pendingState, history, output, pushInFlight, false);
     });
 
     repositoryDisposables.set(key, disposable);
@@ -139,12 +359,25 @@ function registerCommitListeners(
   });
 }
 
+function describePushSkip(decision: Extract<PushDecision, { kind: 'skip' }>): string {
+  switch (decision.reason) {
+    case 'detached':
+      return 'HEADがブランチを指していません。';
+    case 'denied':
+      return `ブランチ "${decision.branch}" は pushDeniedBranches の "${decision.pattern}" に一致します。`;
+    default:
+      return `ブランチ "${decision.branch}" は自動pushの許可対象ではありません。`;
+  }
+}
+
 async function handleCommitEvent(
   repository: GitRepository,
   pendingState: PendingCommitState,
+  history: GenerationHistory,
   output: vscode.OutputChannel,
   pushInFlight: Set<string>,
-  showSkipNotification: boolean
+  showSkipNotification: boolean,
+  showResultNotification = true
 ): Promise<void> {
   const pending = pendingState.get(repository);
   if (!pending) {
@@ -157,8 +390,22 @@ async function handleCommitEvent(
   }
 
   pushInFlight.add(key);
+  const outcome: Partial<GenerationHistoryEntry> = {};
   try {
-    const settings = getSettings();
+    const settings = getSettings(repository.rootUri);
+    if (isPendingExpired(pending, settings.pendingExpiryMinutes)) {
+      outcome.pushResult = 'skipped';
+      outcome.pushDetail = 'expired';
+      output.appendLine(
+        `[push] Generated message is older than ${settings.pendingExpiryMinutes} minute(s). Auto-push skipped.`
+      );
+      if (showSkipNotification) {
+        vscode.window.showInformationMessage('生成メッセージの有効期限が切れているため、自動pushをスキップしました。');
+      }
+
+      return;
+    }
+
     let latestCommit;
     try {
       latestCommit = await repository.getCommit('HEAD');
@@ -176,54 +423,112 @@ async function handleCommitEvent(
       latestCommit = await repository.getCommit(headCommit);
     }
 
-    const latestMessage = firstLine(latestCommit.message);
-    if (latestMessage !== pending.message.trim()) {
+    const isDirectChild = pending.baseCommit
+      ? latestCommit.parents.length === 1 && latestCommit.parents[0] === pending.baseCommit
+      : latestCommit.parents.length === 0;
+    if (!isDirectChild) {
+      outcome.pushResult = 'skipped';
+      outcome.pushDetail = 'unexpected-parent';
       output.appendLine(
-        `[push] Latest commit message does not match generated message. Skipping auto-push.\n  latest: ${latestMessage}\n  generated: ${pending.message}`
+        `[push] Commit ${latestCommit.hash} is not a direct child of the HEAD recorded at generation (${pending.baseCommit ?? 'unborn'}). Auto-push skipped.`
       );
       if (showSkipNotification) {
-        vscode.window.showInformationMessage('生成メッセージと一致しないため、自動pushをスキップしました。');
+        vscode.window.showInformationMessage('生成後に別のコミットが作成されたため、自動pushをスキップしました。');
       }
 
       return;
     }
 
-    const head = repository.state.HEAD;
-    const currentBranchName = head?.name ?? '';
-    if (currentBranchName !== settings.pushBranch) {
+    outcome.commitHash = latestCommit.hash;
+    const latestMessage = normalizeCommitMessage(stripSignoffTrailers(latestCommit.message));
+    const pendingMessage = normalizeCommitMessage(stripSignoffTrailers(pending.message));
+    if (latestMessage !== pendingMessage) {
+      outcome.edited = true;
+      output.appendLine(
+        `[push] Commit message was edited (editedMessagePolicy=${settings.editedMessagePolicy}).\n  latest: ${latestMessage}\n  generated: ${pendingMessage}`
+      );
+      const allowed =
+        settings.editedMessagePolicy === 'push' ||
+        (settings.editedMessagePolicy === 'ask' && (await confirmEditedMessagePush(pendingMessage, latestMessage)));
+      if (!allowed) {
+        outcome.pushResult = 'skipped';
+        outcome.pushDetail = 'message-edited';
+        output.appendLine('[push] Auto-push skipped for the edited message.');
+        if (showSkipNotification) {
+          vscode.window.showInformationMessage('生成メッセージから編集されたため、自動pushをスキップしました。');
+        }
+
+        return;
+      }
+    }
+
+    const decision = decidePush(repository.state.HEAD, settings.pushPolicy);
+    if (decision.kind === 'skip') {
+      const skipMessage = describePushSkip(decision);
+      outcome.pushResult = 'skipped';
+      outcome.pushDetail = decision.reason;
       if (showSkipNotification) {
-        vscode.window.showInformationMessage(
-          `自動pushをスキップしました。現在ブランチは "${currentBranchName || 'unknown'}" で、対象は "${settings.pushBranch}" です。`
-        );
+        vscode.window.showInformationMessage(`自動pushをスキップしました。${skipMessage}`);
       }
 
-      output.appendLine(
-        `[push] Branch mismatch. current=${currentBranchName || 'unknown'} target=${settings.pushBranch}`
-      );
+      output.appendLine(`[push] Auto-push skipped (${decision.reason}). ${skipMessage}`);
       return;
     }
 
-    output.appendLine(`[push] Executing auto-push to ${settings.pushRemote}/${settings.pushBranch}`);
-    await repository.push(settings.pushRemote, settings.pushBranch, false);
-    vscode.window.showInformationMessage(
-      `生成メッセージのコミットを ${settings.pushRemote}/${settings.pushBranch} へ自動pushしました。`
+    let forcePushMode: ForcePushMode | undefined;
+    const behind = settings.checkRemoteBeforePush
+      ? await countCommitsBehind(repository, decision, output)
+      : undefined;
+    if (behind !== undefined && behind > 0) {
+      output.appendLine(`[push] ${decision.target} has ${behind} commit(s) not in the local branch.`);
+      const resolution = await askBehindResolution(decision, behind);
+      output.appendLine(`[push] Behind-remote resolution: ${resolution}`);
+      if (resolution === 'skip') {
+        outcome.pushResult = 'skipped';
+        outcome.pushDetail = 'behind-remote';
+        vscode.window.showInformationMessage(`${decision.target} が先行しているため、自動pushをスキップしました。`);
+        return;
+      }
+
+      if (resolution === 'pull-rebase') {
+        await pullRebase(repository, decision, output);
+        output.appendLine(`[push] Rebased onto ${decision.target}.`);
+      } else {
+        forcePushMode = ForcePushMode.ForceWithLease;
+      }
+    }
+
+    output.appendLine(
+      `[push] Executing auto-push: ${decision.remote} ${decision.refspec}${decision.setUpstream ? ' (set upstream)' : ''}${forcePushMode === undefined ? '' : ' (force-with-lease)'}`
     );
+    await repository.push(decision.remote, decision.refspec, decision.setUpstream, forcePushMode);
+    if (showResultNotification) {
+      vscode.window.showInformationMessage(`生成メッセージのコミットを ${decision.target} へ自動pushしました。`);
+    }
+
     output.appendLine('[push] Auto-push succeeded.');
+    outcome.pushResult = 'pushed';
+    outcome.pushDetail = decision.target;
   } catch (error) {
     const message = toErrorMessage(error);
     const isRejected =
       /rejected|non-fast-forward|failed to push|cannot lock ref|updates were rejected/i.test(message);
 
-    if (isRejected) {
-      vscode.window.showErrorMessage(`自動pushに失敗しました（拒否）: ${message}`);
-    } else {
-      vscode.window.showErrorMessage(`自動pushに失敗しました: ${message}`);
+    if (showResultNotification) {
+      vscode.window.showErrorMessage(
+        isRejected ? `自動pushに失敗しました（拒否）: ${message}` : `自動pushに失敗しました: ${message}`
+      );
     }
 
     output.appendLine(`[push] Auto-push failed: ${message}`);
+    outcome.pushResult = 'failed';
+    outcome.pushDetail = message;
   } finally {
-    pendingState.clear(repository);
+    await pendingState.clear(repository);
     pushInFlight.delete(key);
+    if (pending.historyId) {
+      await history.update(pending.historyId, outcome);
+    }
   }
 }
 
@@ -231,9 +536,19 @@ function isNoChangesCommitError(message: string): boolean {
   return /nothing to commit|no changes added|working tree clean|empty commit message/i.test(message);
 }
 
-async function stageAllChangesWithGitCli(repositoryPath: string, output: vscode.OutputChannel): Promise<void> {
-  output.appendLine(`[commit] Staging changes with git CLI: git -C "${repositoryPath}" add -A -- .`);
-  await execFileAsync('git', ['-C', repositoryPath, 'add', '-A', '--', '.'], {
+async function stageChangesWithGitCli(
+  repositoryPath: string,
+  diffSource: DiffSource,
+  output: vscode.OutputChannel
+): Promise<void> {
+  if (diffSource === 'staged') {
+    output.appendLine('[commit] diffSource=staged. Committing the current index without staging.');
+    return;
+  }
+
+  const addFlag = diffSource === 'workingTree' ? '-u' : '-A';
+  output.appendLine(`[commit] Staging changes with git CLI: git -C "${repositoryPath}" add ${addFlag} -- .`);
+  await execFileAsync('git', ['-C', repositoryPath, 'add', addFlag, '--', '.'], {
     encoding: 'utf8',
     windowsHide: true,
     timeout: 30_000,
@@ -241,168 +556,1587 @@ async function stageAllChangesWithGitCli(repositoryPath: string, output: vscode.
   });
 }
 
-async function handleGenerateCommand(
+interface GenerationRequest {
+  repository: GitRepository;
+  settings: ExtensionSettings;
+  generator: CommitMessageGenerator;
+  diffText: string;
+  diffStats: DiffStats;
+  wasTruncated: boolean;
+  redactions: RedactionFinding[];
+  excludedFiles: string[];
+  examples: string[];
+  tickets: string[];
+}
+
+type PreparedGeneration = { kind: 'ready'; request: GenerationRequest } | { kind: 'skipped'; reason: string };
+
+async function prepareGeneration(
   api: GitAPI,
-  pendingState: PendingCommitState,
   output: vscode.OutputChannel,
-  pushInFlight: Set<string>,
-  contextArg: unknown
-): Promise<void> {
+  contextArg: unknown,
+  options: RepositoryGenerationOptions = {}
+): Promise<GenerationRequest | undefined> {
   const repository = await resolveRepository(api, contextArg);
   if (!repository) {
     vscode.window.showWarningMessage('Gitリポジトリを特定できませんでした。');
-    return;
+    return undefined;
   }
 
-  const settings = getSettings();
-  const repositoryPath = repository.rootUri.fsPath;
+  const prepared = await prepareRepositoryGeneration(repository, output, options);
+  return prepared.kind === 'ready' ? prepared.request : undefined;
+}
+
+interface RepositoryGenerationOptions {
+  amend?: AmendDiffBase;
+  source?: DiffSource;
+  commitsImmediately?: boolean;
+  preview?: boolean;
+}
+
+async function prepareRepositoryGeneration(
+  repository: GitRepository,
+  output: vscode.OutputChannel,
+  options: RepositoryGenerationOptions = {}
+): Promise<PreparedGeneration> {
+  const { amend } = options;
+  const settings = getSettings(repository.rootUri);
+  const source = options.source ?? settings.diffSource;
+  const { repositoryConfig } = settings;
+  if (repositoryConfig) {
+    output.appendLine(`[config] Using repository config ${repositoryConfig.filePath}.`);
+    if (repositoryConfig.ignoredKeys.length > 0) {
+      output.appendLine(
+        `[config] Ignored keys that cannot be set per repository: ${repositoryConfig.ignoredKeys.join(', ')}`
+      );
+    }
+
+    if (repositoryConfig.error) {
+      output.appendLine(`[config] Failed to read repository config: ${repositoryConfig.error}`);
+      vscode.window.showWarningMessage(
+        `${REPOSITORY_CONFIG_FILE_NAME} を読み込めなかったため、ユーザー設定を使用します: ${repositoryConfig.error}`
+      );
+    }
+  }
+
+  const redaction = settings.redactionEnabled
+    ? {
+        customPatterns: compileCustomPatterns(settings.redactionCustomPatterns, (pattern, error) => {
+          output.appendLine(`[redact] Ignoring invalid custom pattern ${pattern}: ${error}`);
+        }),
+        excludePaths: settings.redactionExcludePaths
+      }
+    : undefined;
+
+  let examples: string[] = [];
+  if (settings.exampleCount > 0) {
+    try {
+      examples = await collectRecentCommitSubjects({
+        repositoryPath: repository.rootUri.fsPath,
+        count: settings.exampleCount,
+        excludeAuthors: settings.exampleExcludeAuthors,
+        maxChars: settings.exampleMaxChars
+      });
+      output.appendLine(`[examples] Using ${examples.length} recent commit subject(s) as style examples.`);
+    } catch (error) {
+      output.appendLine(`[examples] Failed to read recent commits: ${toErrorMessage(error)}`);
+    }
+  }
+
+  const tickets = extractTickets(repository.state.HEAD?.name, settings.ticketPattern);
+  if (tickets.length > 0) {
+    output.appendLine(`[ticket] Branch ${repository.state.HEAD?.name ?? ''} references ${tickets.join(', ')}.`);
+  } else if (settings.ticketPattern) {
+    output.appendLine('[ticket] No ticket ID was found in the current branch name.');
+  }
+
+  const examplesChars = examples.reduce((sum, example) => sum + example.length + 3, 0);
+  const diffMaxChars = settings.diffMaxChars - examplesChars;
 
   let diffResult;
   try {
     diffResult = await collectDiffForPrompt({
-      repositoryPath,
+      repositoryPath: repository.rootUri.fsPath,
+      source,
       includeUntracked: settings.includeUntracked,
-      maxChars: settings.diffMaxChars,
+      untrackedPreviewMaxBytes: settings.untrackedPreviewMaxBytes,
+      maxChars: diffMaxChars,
+      redaction,
+      amend,
       output
     });
   } catch (error) {
     const message = toErrorMessage(error);
     output.appendLine(`[diff] Failed to collect diff: ${message}`);
     vscode.window.showErrorMessage(`差分の収集に失敗しました: ${message}`);
-    return;
+    return { kind: 'skipped', reason: `failed to collect diff: ${message}` };
+  }
+
+  if (diffResult.excludedFiles.length > 0) {
+    output.appendLine(`[redact] Excluded ${diffResult.excludedFiles.length} file(s) from the prompt:`);
+    for (const file of diffResult.excludedFiles) {
+      output.appendLine(`  - ${file}`);
+    }
+  }
+
+  if (diffResult.redactions.length > 0) {
+    output.appendLine('[redact] Redacted sensitive content:');
+    for (const finding of diffResult.redactions) {
+      output.appendLine(`  - ${finding.path}: ${finding.kind} x${finding.count}`);
+    }
+
+    if (
+      settings.abortOnSecrets &&
+      (settings.autoCommitAfterGenerate || options.commitsImmediately) &&
+      !options.preview
+    ) {
+      const files = [...new Set(diffResult.redactions.map((finding) => finding.path))];
+      output.appendLine('[redact] Generation aborted because secrets were detected in files to be auto-committed.');
+      vscode.window.showErrorMessage(
+        `自動コミット対象のファイルに機密情報の可能性がある内容を検出したため、生成を中止しました: ${files.join(', ')}`
+      );
+      return { kind: 'skipped', reason: `secrets detected (redaction.abortOnSecrets): ${files.join(', ')}` };
+    }
   }
 
   if (!diffResult.diffText.trim()) {
-    vscode.window.showInformationMessage('差分がないため、commitMessageを生成できません。');
-    return;
+    vscode.window.showInformationMessage(
+      amend
+        ? 'amend対象のコミットに差分がないため、commitMessageを生成できません。'
+        : source === 'staged'
+          ? 'ステージされた変更がないため、commitMessageを生成できません。'
+          : '差分がないため、commitMessageを生成できません。'
+    );
+    return { kind: 'skipped', reason: 'no changes' };
   }
 
   if (diffResult.wasTruncated) {
-    output.appendLine(`[diff] Prompt diff text was truncated to ${settings.diffMaxChars} characters.`);
+    output.appendLine(`[diff] Prompt diff text was fitted to ${diffMaxChars} characters.`);
+    for (const elision of diffResult.elisions) {
+      output.appendLine(`  - ${elision}`);
+    }
   }
 
-  const prompt = buildCommitMessagePrompt(diffResult.diffText);
-  const timeoutMs = settings.timeoutSeconds * 1000;
+  if (diffResult.omittedBinaryFiles.length > 0) {
+    output.appendLine(`[diff] Binary content omitted: ${diffResult.omittedBinaryFiles.join(', ')}`);
+  }
 
-  try {
-    const message = await vscode.window.withProgress(
-      {
-        location: vscode.ProgressLocation.Notification,
-        title: 'CodexでcommitMessageを生成中...',
-        cancellable: false
-      },
-      async () =>
-        generateCommitMessageWithCodex({
-          commandPath: settings.codexCommandPath,
-          model: settings.model,
-          reasoningEffort: settings.reasoningEffort,
-          prompt,
-          cwd: repositoryPath,
-          timeoutMs,
-          output
-        })
+  const generator = createGenerator(settings);
+  output.appendLine(`[generate] Using ${generator.label} (${generator.model}).`);
+  output.appendLine(`[style] Using style profile "${settings.style.name}".`);
+  return {
+    kind: 'ready',
+    request: {
+      repository,
+      settings,
+      generator,
+      diffText: diffResult.diffText,
+      diffStats: diffResult.stats,
+      wasTruncated: diffResult.wasTruncated,
+      redactions: diffResult.redactions,
+      excludedFiles: diffResult.excludedFiles,
+      examples,
+      tickets
+    }
+  };
+}
+
+function createGenerateRequest(
+  request: GenerationRequest,
+  prompt: string,
+  output: vscode.OutputChannel,
+  progress: vscode.Progress<{ message?: string }>,
+  cancellationToken: vscode.CancellationToken
+): GenerateRequest {
+  return {
+    prompt,
+    cwd: request.repository.rootUri.fsPath,
+    timeoutMs: request.settings.timeoutSeconds * 1000,
+    output,
+    cancellationToken,
+    onProgress: (message) => progress.report({ message })
+  };
+}
+
+function isMultiline(settings: ExtensionSettings): boolean {
+  return settings.style.profile.format === 'subjectAndBody';
+}
+
+function finalizeGeneratedMessage(generated: string, request: GenerationRequest): string {
+  const { settings } = request;
+  const { profile } = settings.style;
+  const wrapped = profile.format === 'subjectAndBody' ? wrapMessageBody(generated, profile.bodyWrapColumn) : generated;
+  return applyTicketReferences(wrapped, request.tickets, settings.ticketPlacement, settings.ticketTrailerKey);
+}
+
+function lintMessage(message: string, request: GenerationRequest): string[] {
+  const { settings } = request;
+  const withoutTickets = stripTicketReferences(message, request.tickets, settings.ticketTrailerKey);
+  return lintCommitMessage(withoutTickets, settings.style.profile, settings.lintDisabledRules).map(formatLintViolation);
+}
+
+async function generateWithRepair(
+  request: GenerationRequest,
+  basePrompt: string,
+  output: vscode.OutputChannel,
+  progress: vscode.Progress<{ message?: string }>,
+  cancellationToken: vscode.CancellationToken
+): Promise<string> {
+  const { settings } = request;
+  const maxAttempts = settings.lintMaxRepairAttempts;
+  let prompt = basePrompt;
+  let best: { message: string; violations: string[] } | undefined;
+
+  for (let attempt = 0; attempt <= maxAttempts; attempt++) {
+    if (attempt > 0) {
+      progress.report({ message: `ルール違反を修正中 (${attempt}/${maxAttempts})...` });
+    }
+
+    const generated = await generateCommitMessage(
+      request.generator,
+      createGenerateRequest(request, prompt, output, progress, cancellationToken),
+      isMultiline(settings)
     );
+    const message = finalizeGeneratedMessage(generated, request);
+    const violations = lintMessage(message, request);
+    if (!best || violations.length < best.violations.length) {
+      best = { message, violations };
+    }
 
-    repository.inputBox.value = message;
-    pendingState.set(repository, {
-      message,
-      createdAt: Date.now()
-    });
+    if (violations.length === 0 || attempt === maxAttempts) {
+      break;
+    }
 
-    output.appendLine(`[generate] Generated message: ${message}`);
+    output.appendLine(`[lint] Attempt ${attempt + 1} violates ${violations.length} rule(s). Re-prompting: ${message}`);
+    for (const violation of violations) {
+      output.appendLine(`  - ${violation}`);
+    }
 
-    if (!settings.autoCommitAfterGenerate) {
-      vscode.window.showInformationMessage(
-        `commitMessageを入力しました（autoCommitAfterGenerate=false）。コミット成功時に ${settings.pushRemote}/${settings.pushBranch} へ自動pushします。`
-      );
-      return;
+    prompt = buildRepairPrompt(basePrompt, message, violations);
+  }
+
+  return best?.message ?? '';
+}
+
+function recordHistoryEntry(
+  history: GenerationHistory,
+  request: GenerationRequest,
+  entry: { message: string; promptChars: number; edited: boolean; diffStats?: DiffStats }
+): Promise<GenerationHistoryEntry> {
+  const { repository, settings } = request;
+  return history.add({
+    repositoryPath: repository.rootUri.fsPath,
+    branch: repository.state.HEAD?.name,
+    provider: settings.provider,
+    model: request.generator.model,
+    reasoningEffort: settings.reasoningEffort,
+    diffStats: entry.diffStats ?? request.diffStats,
+    promptChars: entry.promptChars,
+    message: entry.message,
+    edited: entry.edited
+  });
+}
+
+async function applyGeneratedMessage(
+  request: GenerationRequest,
+  message: string,
+  generation: { promptChars: number; edited: boolean },
+  pendingState: PendingCommitState,
+  history: GenerationHistory,
+  output: vscode.OutputChannel,
+  pushInFlight: Set<string>
+): Promise<void> {
+  const { repository, settings } = request;
+  const violations = lintMessage(message, request);
+  const coAuthors = settings.coAuthorRoster.length > 0 ? await pickCoAuthors(settings.coAuthorRoster) : [];
+  const finalMessage = appendTrailers(message, [
+    ...settings.commitTrailers,
+    ...coAuthors.map((coAuthor) => `Co-authored-by: ${coAuthor}`)
+  ]);
+
+  const baseCommit = repository.state.HEAD?.commit;
+  repository.inputBox.value = finalMessage;
+  const historyEntry = await recordHistoryEntry(history, request, { ...generation, message: finalMessage });
+  await pendingState.set(repository, {
+    message: finalMessage,
+    createdAt: Date.now(),
+    baseCommit,
+    historyId: historyEntry.id
+  });
+
+  output.appendLine(`[generate] Generated message: ${finalMessage}`);
+
+  if (violations.length > 0) {
+    output.appendLine(`[lint] Generated message violates profile "${settings.style.name}":`);
+    for (const violation of violations) {
+      output.appendLine(`  - ${violation}`);
     }
 
-    await vscode.window.withProgress(
+    const summary = violations.length > 1 ? `${violations[0]} ほか${violations.length - 1}件` : violations[0];
+    vscode.window.showWarningMessage(
+      settings.autoCommitAfterGenerate
+        ? `生成メッセージがスタイル "${settings.style.name}" に適合しないため、自動コミットを中止しました（${summary}）。入力欄を確認してください。`
+        : `生成メッセージがスタイル "${settings.style.name}" に適合しません（${summary}）。入力欄を確認してください。`
+    );
+    return;
+  }
+
+  if (!settings.autoCommitAfterGenerate) {
+    const decision = decidePush(repository.state.HEAD, settings.pushPolicy);
+    vscode.window.showInformationMessage(
+      decision.kind === 'push'
+        ? `commitMessageを入力しました（autoCommitAfterGenerate=false）。コミット成功時に ${decision.target} へ自動pushします。`
+        : `commitMessageを入力しました（autoCommitAfterGenerate=false）。${describePushSkip(decision)}コミット後の自動pushは行いません。`
+    );
+    return;
+  }
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'コミットして自動push中...',
+      cancellable: false
+    },
+    async () => {
+      output.appendLine('[commit] Auto-commit started.');
+      await stageChangesWithGitCli(repository.rootUri.fsPath, settings.diffSource, output);
+      await commitWithOptions(repository, finalMessage, settings.commitOptions, output);
+      output.appendLine('[commit] Auto-commit completed.');
+    }
+  );
+
+  await handleCommitEvent(repository, pendingState, history, output, pushInFlight, true);
+}
+
+function reportGenerationError(
+  error: unknown,
+  request: GenerationRequest,
+  pendingState: PendingCommitState,
+  output: vscode.OutputChannel
+): void {
+  const { settings } = request;
+  void pendingState.clear(request.repository);
+
+  const errorMessage = toErrorMessage(error);
+  output.appendLine(`[error][details] ${toErrorDetails(error)}`);
+  if (error instanceof CommitFailureError) {
+    output.appendLine(`[commit] ${error.message}\n${error.commandOutput}`);
+    const showOutput = 'Outputを表示';
+    const summary = tail(error.commandOutput, 300);
+    void vscode.window
+      .showErrorMessage(
+        error.kind === 'hook'
+          ? `コミットフックが失敗したため、自動コミットを中止しました: ${summary}`
+          : error.kind === 'signing'
+            ? `コミットの署名に失敗しました。git の署名設定（user.signingkey / gpg.format）を確認してください: ${summary}`
+            : `コミットに失敗しました: ${summary}`,
+        showOutput
+      )
+      .then((picked) => {
+        if (picked === showOutput) {
+          output.show(true);
+        }
+      });
+    return;
+  }
+
+  if (isNoChangesCommitError(errorMessage)) {
+    vscode.window.showWarningMessage('コミット対象の変更がないため、自動コミットをスキップしました。');
+    output.appendLine(`[commit] Auto-commit skipped: ${errorMessage}`);
+    return;
+  }
+
+  if (error instanceof GeneratorError) {
+    const { generator } = request;
+    switch (error.code) {
+      case 'not-found':
+        vscode.window.showErrorMessage(
+          settings.provider === 'command'
+            ? `生成コマンドが見つかりません。設定 "${CONFIG_NAMESPACE}.command.path" を確認してください。`
+            : `codex CLI が見つかりません。設定 "${CONFIG_NAMESPACE}.codexCommandPath" を確認してください。`
+        );
+        break;
+      case 'timeout':
+        vscode.window.showErrorMessage(`${generator.label}の生成がタイムアウトしました（${settings.timeoutSeconds}秒）。`);
+        break;
+      case 'model-access':
+        vscode.window.showErrorMessage(
+          `モデル "${generator.model}" の利用権限エラーで生成に失敗しました。`
+        );
+        break;
+      case 'auth-failed':
+        vscode.window.showErrorMessage(
+          `${generator.label}の認証に失敗しました。設定 "${CONFIG_NAMESPACE}.http.apiKeyEnvVar" で指定した環境変数のAPIキーを確認してください。`
+        );
+        break;
+      case 'request-failed':
+        vscode.window.showErrorMessage(
+          `${generator.label}へのリクエストに失敗しました。設定 "${CONFIG_NAMESPACE}.http.baseUrl" を確認してください: ${error.message}`
+        );
+        break;
+      case 'cancelled':
+        vscode.window.showInformationMessage('commitMessage生成をキャンセルしました。');
+        break;
+      case 'parse-failed':
+      case 'empty-response':
+        vscode.window.showErrorMessage(`${generator.label}の出力からコミットメッセージを取得できませんでした。`);
+        break;
+      default:
+        vscode.window.showErrorMessage(`${generator.label}での生成に失敗しました: ${error.message}`);
+        break;
+    }
+
+    output.appendLine(`[generate] ${generator.label} error (${error.code}): ${error.message}`);
+    if (error.details) {
+      output.appendLine(`[generate] Details:\n${error.details}`);
+    }
+    return;
+  }
+
+  output.appendLine(`[generate] Unexpected error: ${errorMessage}`);
+  vscode.window.showErrorMessage(`commitMessage生成または自動コミットに失敗しました: ${errorMessage}`);
+}
+
+async function handleGenerateCommand(
+  api: GitAPI,
+  pendingState: PendingCommitState,
+  history: GenerationHistory,
+  output: vscode.OutputChannel,
+  pushInFlight: Set<string>,
+  responseCache: ResponseCache,
+  forceRegenerate: boolean,
+  contextArg: unknown
+): Promise<void> {
+  const prepared = await prepareGeneration(api, output, contextArg);
+  if (!prepared) {
+    return;
+  }
+
+  const { settings } = prepared;
+  const request: GenerationRequest = settings.cacheEnabled
+    ? {
+        ...prepared,
+        generator: withResponseCache(
+          prepared.generator,
+          responseCache,
+          { provider: settings.provider, reasoningEffort: settings.reasoningEffort, bypass: forceRegenerate },
+          output
+        )
+      }
+    : prepared;
+  const prompt = buildCommitMessagePrompt(request.diffText, settings.style.profile, 1, {
+    examples: request.examples,
+    tickets: request.tickets
+  });
+
+  try {
+    const message = await vscode.window.withProgress(
       {
         location: vscode.ProgressLocation.Notification,
-        title: 'コミットして自動push中...',
-        cancellable: false
+        title: `${request.generator.label}でcommitMessageを生成中...`,
+        cancellable: true
       },
-      async () => {
-        output.appendLine('[commit] Auto-commit started.');
-        await stageAllChangesWithGitCli(repository.rootUri.fsPath, output);
-        await repository.commit(message, { postCommitCommand: null });
-        output.appendLine('[commit] Auto-commit completed.');
-      }
+      async (progress, token) => generateWithRepair(request, prompt, output, progress, token)
     );
 
-    await handleCommitEvent(repository, pendingState, output, pushInFlight, true);
+    await applyGeneratedMessage(
+      request,
+      message,
+      { promptChars: prompt.length, edited: false },
+      pendingState,
+      history,
+      output,
+      pushInFlight
+    );
   } catch (error) {
-    pendingState.clear(repository);
+    reportGenerationError(error, request, pendingState, output);
+  }
+}
 
-    const errorMessage = toErrorMessage(error);
-    output.appendLine(`[error][details] ${toErrorDetails(error)}`);
-    if (isNoChangesCommitError(errorMessage)) {
-      vscode.window.showWarningMessage('コミット対象の変更がないため、自動コミットをスキップしました。');
-      output.appendLine(`[commit] Auto-commit skipped: ${errorMessage}`);
-      return;
-    }
+async function handleGenerateCandidatesCommand(
+  api: GitAPI,
+  pendingState: PendingCommitState,
+  history: GenerationHistory,
+  output: vscode.OutputChannel,
+  pushInFlight: Set<string>,
+  contextArg: unknown
+): Promise<void> {
+  const request = await prepareGeneration(api, output, contextArg);
+  if (!request) {
+    return;
+  }
+
+  const { settings } = request;
+  const prompt = buildCommitMessagePrompt(
+    request.diffText,
+    settings.style.profile,
+    settings.candidateCount,
+    { examples: request.examples, tickets: request.tickets }
+  );
+
+  try {
+    for (;;) {
+      const generated = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `${request.generator.label}でcommitMessage候補を${settings.candidateCount}件生成中...`,
+          cancellable: true
+        },
+        async (progress, token) =>
+          generateCommitMessageCandidates(
+            request.generator,
+            createGenerateRequest(request, prompt, output, progress, token),
+            isMultiline(settings)
+          )
+      );
 
-    if (error instanceof CodexCliError) {
-      switch (error.code) {
-        case 'not-found':
-          vscode.window.showErrorMessage(
-            `codex CLI が見つかりません。設定 "${CONFIG_NAMESPACE}.codexCommandPath" を確認してください。`
-          );
-          break;
-        case 'timeout':
-          vscode.window.showErrorMessage(`Codex生成がタイムアウトしました（${settings.timeoutSeconds}秒）。`);
-          break;
-        case 'model-access':
-          vscode.window.showErrorMessage(
-            `モデル "${settings.model}" の利用権限エラーで生成に失敗しました。`
-          );
-          break;
-        case 'parse-failed':
-        case 'empty-response':
-          vscode.window.showErrorMessage('Codexの出力からコミットメッセージを取得できませんでした。');
-          break;
-        default:
-          vscode.window.showErrorMessage(`Codex生成に失敗しました: ${error.message}`);
-          break;
+      const candidates = generated.map((candidate) => finalizeGeneratedMessage(candidate, request));
+      output.appendLine(`[generate] Received ${candidates.length} candidate(s).`);
+
+      const picked = await pickCommitMessageCandidate(candidates, (message) => lintMessage(message, request));
+      if (!picked) {
+        output.appendLine('[generate] Candidate selection cancelled.');
+        return;
+      }
+
+      if (picked.kind === 'regenerate') {
+        output.appendLine('[generate] Regenerating candidates.');
+        continue;
       }
 
-      output.appendLine(`[generate] Codex error (${error.code}): ${error.message}`);
-      if (error.details) {
-        output.appendLine(`[generate] Details:\n${error.details}`);
+      if (picked.edited) {
+        output.appendLine('[generate] Selected candidate was edited by the user.');
       }
+
+      await applyGeneratedMessage(
+        request,
+        picked.message,
+        { promptChars: prompt.length, edited: picked.edited },
+        pendingState,
+        history,
+        output,
+        pushInFlight
+      );
       return;
     }
-
-    output.appendLine(`[generate] Unexpected error: ${errorMessage}`);
-    vscode.window.showErrorMessage(`commitMessage生成または自動コミットに失敗しました: ${errorMessage}`);
+  } catch (error) {
+    reportGenerationError(error, request, pendingState, output);
   }
 }
 
-export async function activate(context: vscode.ExtensionContext): Promise<void> {
-  const output = vscode.window.createOutputChannel(OUTPUT_CHANNEL_NAME);
-  context.subscriptions.push(output);
+async function commitPlanGroups(
+  request: GenerationRequest,
+  groups: CommitPlanGroup[],
+  promptChars: number,
+  pendingState: PendingCommitState,
+  history: GenerationHistory,
+  output: vscode.OutputChannel,
+  pushInFlight: Set<string>
+): Promise<void> {
+  const { repository, settings } = request;
+  const repositoryPath = repository.rootUri.fsPath;
+  const coAuthors = settings.coAuthorRoster.length > 0 ? await pickCoAuthors(settings.coAuthorRoster) : [];
+  const trailers = [...settings.commitTrailers, ...coAuthors.map((coAuthor) => `Co-authored-by: ${coAuthor}`)];
+  const key = repositoryKey(repository);
 
-  let api: GitAPI;
+  await pendingState.clear(repository);
+  pushInFlight.add(key);
+  let committed = 0;
   try {
-    api = await getGitApi();
-  } catch (error) {
-    const message = toErrorMessage(error);
-    output.appendLine(`[activate] Failed to initialize Git API: ${message}`);
-    vscode.window.showErrorMessage(`Codex Commit Push: Git API初期化に失敗しました: ${message}`);
-    return;
-  }
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'コミットプランを実行中...',
+        cancellable: false
+      },
+      async (progress) => {
+        output.appendLine(`[plan] Committing ${groups.length} planned commit(s).`);
+        await unstageAllChanges(repositoryPath);
+        let baseCommit = repository.state.HEAD?.commit;
+        for (const group of groups) {
+          const message = appendTrailers(group.message, trailers);
+          const isLast = committed === groups.length - 1;
+          progress.report({ message: `${committed + 1}/${groups.length}: ${message.split('\n')[0]}` });
 
-  const pendingState = new PendingCommitState();
-  const pushInFlight = new Set<string>();
-  context.subscriptions.push(registerCommitListeners(api, pendingState, output, pushInFlight));
+          const diffStats = await stageCommitPlanGroup(repositoryPath, group);
+          const historyEntry = await recordHistoryEntry(history, request, {
+            message,
+            promptChars,
+            edited: group.edited,
+            diffStats
+          });
+          if (isLast) {
+            await pendingState.set(repository, {
+              message,
+              createdAt: Date.now(),
+              baseCommit,
+              historyId: historyEntry.id
+            });
+          }
+
+          output.appendLine(`[plan] Commit ${committed + 1}/${groups.length}: ${group.files.join(', ')}`);
+          await commitWithOptions(repository, message, settings.commitOptions, output);
+          const commit = await repository.getCommit('HEAD');
+          committed += 1;
+          baseCommit = commit.hash;
+          if (!isLast) {
+            await history.update(historyEntry.id, { commitHash: commit.hash });
+          }
+        }
+      }
+    );
+  } catch (error) {
+    output.appendLine(`[plan] Stopped after ${committed} of ${groups.length} commit(s).`);
+    throw error;
+  } finally {
+    pushInFlight.delete(key);
+  }
+
+  output.appendLine(`[plan] Created ${committed} commit(s).`);
+  await handleCommitEvent(repository, pendingState, history, output, pushInFlight, true);
+}
+
+async function handlePlanCommitsCommand(
+  api: GitAPI,
+  pendingState: PendingCommitState,
+  history: GenerationHistory,
+  output: vscode.OutputChannel,
+  pushInFlight: Set<string>,
+  contextArg: unknown
+): Promise<void> {
+  const repository = await resolveRepository(api, contextArg);
+  if (!repository) {
+    vscode.window.showWarningMessage('Gitリポジトリを特定できませんでした。');
+    return;
+  }
+
+  const diffSource = getSettings(repository.rootUri).diffSource;
+  const source = diffSource === 'staged' ? 'all' : diffSource;
+  if (diffSource === 'staged') {
+    output.appendLine('[plan] diffSource=staged is treated as all when planning commits.');
+  }
+
+  const prepared = await prepareRepositoryGeneration(repository, output, { source, commitsImmediately: true });
+  if (prepared.kind === 'skipped') {
+    return;
+  }
+
+  const { request } = prepared;
+
+  const { settings } = request;
+  let changedFiles: string[];
+  try {
+    changedFiles = await listPlanFiles(repository.rootUri.fsPath, source, settings.includeUntracked);
+  } catch (error) {
+    const message = toErrorMessage(error);
+    output.appendLine(`[plan] Failed to list changed files: ${message}`);
+    vscode.window.showErrorMessage(`変更ファイルの取得に失敗しました: ${message}`);
+    return;
+  }
+
+  const prompt = buildCommitPlanPrompt(
+    request.diffText,
+    changedFiles,
+    settings.style.profile,
+    settings.planMaxCommits,
+    { examples: request.examples, tickets: request.tickets }
+  );
+
+  try {
+    for (;;) {
+      const generated = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `${request.generator.label}でコミットプランを生成中...`,
+          cancellable: true
+        },
+        async (progress, token) =>
+          generateCommitPlan(
+            request.generator,
+            createGenerateRequest(request, prompt, output, progress, token),
+            isMultiline(settings)
+          )
+      );
+
+      const plan = normalizeCommitPlan(generated, changedFiles);
+      if (plan.unknownFiles.length > 0) {
+        output.appendLine(`[plan] Ignored files that are not changed: ${plan.unknownFiles.join(', ')}`);
+      }
+
+      if (plan.unassignedFiles.length > 0) {
+        output.appendLine(`[plan] Added unassigned files to the last commit: ${plan.unassignedFiles.join(', ')}`);
+      }
+
+      if (plan.groups.length === 0) {
+        output.appendLine('[plan] The generated plan does not contain any changed file.');
+        vscode.window.showErrorMessage(`${request.generator.label}の出力からコミットプランを取得できませんでした。`);
+        return;
+      }
+
+      const groups = plan.groups.map((group) => ({
+        ...group,
+        message: finalizeGeneratedMessage(group.message, request)
+      }));
+      output.appendLine(`[plan] Received a plan with ${groups.length} commit(s).`);
+
+      const reviewed = await reviewCommitPlan(groups, (message) => lintMessage(message, request));
+      if (!reviewed) {
+        output.appendLine('[plan] Commit plan cancelled.');
+        return;
+      }
+
+      if (reviewed.kind === 'regenerate') {
+        output.appendLine('[plan] Regenerating the commit plan.');
+        continue;
+      }
+
+      await commitPlanGroups(request, reviewed.groups, prompt.length, pendingState, history, output, pushInFlight);
+      return;
+    }
+  } catch (error) {
+    reportGenerationError(error, request, pendingState, output);
+  }
+}
+
+type BatchGenerationResult =
+  | { kind: 'generated'; request: GenerationRequest; message: string; promptChars: number }
+  | { kind: 'skipped'; repository: GitRepository; reason: string }
+  | { kind: 'failed'; repository: GitRepository; error: string };
+
+interface BatchOutcome {
+  label: string;
+  status: 'pushed' | 'committed' | 'skipped' | 'failed';
+  detail?: string;
+}
+
+function repositoryLabel(repository: GitRepository): string {
+  return path.basename(repository.rootUri.fsPath);
+}
+
+async function generateForBatch(
+  repository: GitRepository,
+  output: vscode.OutputChannel,
+  cancellationToken: vscode.CancellationToken
+): Promise<BatchGenerationResult> {
+  if (cancellationToken.isCancellationRequested) {
+    return { kind: 'skipped', repository, reason: 'cancelled' };
+  }
+
+  try {
+    const prepared = await prepareRepositoryGeneration(repository, output, { commitsImmediately: true });
+    if (prepared.kind === 'skipped') {
+      return { kind: 'skipped', repository, reason: prepared.reason };
+    }
+
+    const { request } = prepared;
+
+    const prompt = buildCommitMessagePrompt(request.diffText, request.settings.style.profile, 1, {
+      examples: request.examples,
+      tickets: request.tickets
+    });
+    const message = await generateWithRepair(request, prompt, output, { report: () => undefined }, cancellationToken);
+    output.appendLine(`[batch] ${repository.rootUri.fsPath}: ${message}`);
+    return { kind: 'generated', request, message, promptChars: prompt.length };
+  } catch (error) {
+    output.appendLine(`[batch] ${repository.rootUri.fsPath}: generation failed: ${toErrorMessage(error)}`);
+    output.appendLine(`[error][details] ${toErrorDetails(error)}`);
+    return { kind: 'failed', repository, error: toErrorMessage(error) };
+  }
+}
+
+async function commitBatchEntry(
+  request: GenerationRequest,
+  message: string,
+  generation: { promptChars: number; edited: boolean },
+  coAuthors: string[],
+  pendingState: PendingCommitState,
+  history: GenerationHistory,
+  output: vscode.OutputChannel,
+  pushInFlight: Set<string>
+): Promise<BatchOutcome> {
+  const { repository, settings } = request;
+  const label = repositoryLabel(repository);
+  const finalMessage = appendTrailers(message, [
+    ...settings.commitTrailers,
+    ...coAuthors.map((coAuthor) => `Co-authored-by: ${coAuthor}`)
+  ]);
+  const historyEntry = await recordHistoryEntry(history, request, { ...generation, message: finalMessage });
+  await pendingState.set(repository, {
+    message: finalMessage,
+    createdAt: Date.now(),
+    baseCommit: repository.state.HEAD?.commit,
+    historyId: historyEntry.id
+  });
+
+  const key = repositoryKey(repository);
+  pushInFlight.add(key);
+  try {
+    await stageChangesWithGitCli(repository.rootUri.fsPath, settings.diffSource, output);
+    await commitWithOptions(repository, finalMessage, settings.commitOptions, output);
+  } catch (error) {
+    await pendingState.clear(repository);
+    output.appendLine(`[batch] ${repository.rootUri.fsPath}: commit failed: ${toErrorMessage(error)}`);
+    if (error instanceof CommitFailureError) {
+      output.appendLine(error.commandOutput);
+    }
+
+    return { label, status: 'failed', detail: toErrorMessage(error) };
+  } finally {
+    pushInFlight.delete(key);
+  }
+
+  await handleCommitEvent(repository, pendingState, history, output, pushInFlight, false, false);
+  const recorded = history.list().find((entry) => entry.id === historyEntry.id);
+  switch (recorded?.pushResult) {
+    case 'pushed':
+      return { label, status: 'pushed', detail: recorded.pushDetail };
+    case 'failed':
+      return { label, status: 'failed', detail: `push: ${recorded.pushDetail ?? ''}` };
+    default:
+      return { label, status: 'committed', detail: recorded?.pushDetail };
+  }
+}
+
+function reportBatchSummary(outcomes: BatchOutcome[], output: vscode.OutputChannel): void {
+  output.appendLine('[batch] Summary:');
+  for (const outcome of outcomes) {
+    output.appendLine(`  - ${outcome.label}: ${outcome.status}${outcome.detail ? ` (${outcome.detail})` : ''}`);
+  }
+
+  const count = (status: BatchOutcome['status']): number =>
+    outcomes.filter((outcome) => outcome.status === status).length;
+  const summary = [
+    `push ${count('pushed')}件`,
+    `コミットのみ ${count('committed')}件`,
+    `スキップ ${count('skipped')}件`,
+    `失敗 ${count('failed')}件`
+  ].join(' / ');
+  const message = `一括コミットが完了しました: ${summary}`;
+  const showOutput = 'Outputを表示';
+  const shown =
+    count('failed') > 0
+      ? vscode.window.showWarningMessage(message, showOutput)
+      : vscode.window.showInformationMessage(message, showOutput);
+  void shown.then((picked) => {
+    if (picked === showOutput) {
+      output.show(true);
+    }
+  });
+}
+
+async function handleBatchGenerateCommand(
+  api: GitAPI,
+  pendingState: PendingCommitState,
+  history: GenerationHistory,
+  output: vscode.OutputChannel,
+  pushInFlight: Set<string>
+): Promise<void> {
+  const repositories: GitRepository[] = [];
+  for (const repository of api.repositories) {
+    const settings = getSettings(repository.rootUri);
+    try {
+      if (await hasPendingChanges(repository.rootUri.fsPath, settings.diffSource, settings.includeUntracked)) {
+        repositories.push(repository);
+      }
+    } catch (error) {
+      output.appendLine(`[batch] Failed to read the status of ${repository.rootUri.fsPath}: ${toErrorMessage(error)}`);
+    }
+  }
+
+  if (repositories.length === 0) {
+    vscode.window.showInformationMessage('コミット対象の変更があるリポジトリがありません。');
+    return;
+  }
+
+  const { batchConcurrency } = getSettings();
+  output.appendLine(
+    `[batch] Generating commit messages for ${repositories.length} repositories (concurrency=${batchConcurrency}).`
+  );
+  const results = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `${repositories.length}件のリポジトリでcommitMessageを生成中...`,
+      cancellable: true
+    },
+    async (progress, token) => {
+      let completed = 0;
+      return mapWithConcurrency(repositories, batchConcurrency, async (repository) => {
+        const result = await generateForBatch(repository, output, token);
+        completed += 1;
+        progress.report({
+          message: `${completed}/${repositories.length} ${repositoryLabel(repository)}`,
+          increment: 100 / repositories.length
+        });
+        return result;
+      });
+    }
+  );
+
+  const outcomes: BatchOutcome[] = [];
+  const generated: Extract<BatchGenerationResult, { kind: 'generated' }>[] = [];
+  for (const result of results) {
+    if (result.kind === 'generated') {
+      generated.push(result);
+    } else if (result.kind === 'failed') {
+      outcomes.push({ label: repositoryLabel(result.repository), status: 'failed', detail: result.error });
+    } else {
+      outcomes.push({ label: repositoryLabel(result.repository), status: 'skipped', detail: result.reason });
+    }
+  }
+
+  if (generated.length === 0) {
+    reportBatchSummary(outcomes, output);
+    return;
+  }
+
+  const decisions = await reviewBatchMessages(
+    generated.map((result) => ({
+      label: repositoryLabel(result.request.repository),
+      description: result.request.repository.state.HEAD?.name,
+      message: result.message
+    })),
+    (index, message) => lintMessage(message, generated[index].request)
+  );
+  if (!decisions) {
+    output.appendLine('[batch] Batch review cancelled. Nothing was committed.');
+    return;
+  }
+
+  const approved = new Set(decisions.map((decision) => decision.index));
+  generated.forEach((result, index) => {
+    if (!approved.has(index)) {
+      outcomes.push({ label: repositoryLabel(result.request.repository), status: 'skipped', detail: 'not approved' });
+    }
+  });
+
+  const coAuthorRoster = [
+    ...new Set(decisions.flatMap((decision) => generated[decision.index].request.settings.coAuthorRoster))
+  ];
+  const coAuthors = coAuthorRoster.length > 0 ? await pickCoAuthors(coAuthorRoster) : [];
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: '承認したリポジトリをコミットして自動push中...',
+      cancellable: false
+    },
+    async (progress) => {
+      for (const decision of decisions) {
+        const { request, promptChars } = generated[decision.index];
+        progress.report({ message: repositoryLabel(request.repository) });
+        outcomes.push(
+          await commitBatchEntry(
+            request,
+            decision.message,
+            { promptChars, edited: decision.edited },
+            coAuthors,
+            pendingState,
+            history,
+            output,
+            pushInFlight
+          )
+        );
+      }
+    }
+  );
+
+  reportBatchSummary(outcomes, output);
+}
+
+function describeGeneratorForPreview(request: GenerationRequest): string[] {
+  const { settings, generator } = request;
+  const lines = [`- プロバイダ: ${generator.label}（${settings.provider}）`, `- モデル: ${generator.model}`];
+  switch (settings.provider) {
+    case 'openaiCompatible':
+      lines.push(
+        `- エンドポイント: ${settings.httpBaseUrl}`,
+        `- APIキー環境変数: ${settings.httpApiKeyEnvVar || '(なし)'}`
+      );
+      break;
+    case 'command':
+      lines.push(`- 実行コマンド: \`${[settings.commandPath, ...settings.commandArgs].join(' ')} < <prompt>\``);
+      break;
+    default: {
+      const candidates = buildCommandCandidates(settings.codexCommandPath);
+      const commandLine = [
+        candidates[0] ?? settings.codexCommandPath,
+        'exec --json -m',
+        settings.model,
+        '-c',
+        `model_reasoning_effort="${settings.reasoningEffort}"`,
+        '<prompt>'
+      ].join(' ');
+      lines.push(
+        `- reasoning effort: ${settings.reasoningEffort}`,
+        `- Codexコマンド: ${settings.codexCommandPath}`,
+        `- 実行候補: ${candidates.length > 0 ? candidates.join(', ') : '(見つかりません)'}`,
+        `- 実行コマンド: \`${commandLine}\``
+      );
+      break;
+    }
+  }
+
+  lines.push(`- タイムアウト: ${settings.timeoutSeconds}秒`, `- スタイルプロファイル: ${settings.style.name}`);
+  return lines;
+}
+
+function describePlannedPush(decision: Extract<PushDecision, { kind: 'push' }>, checkRemote: boolean): string {
+  const notes = [`\`${decision.remote} ${decision.refspec}\``];
+  if (decision.setUpstream) {
+    notes.push('upstreamを設定');
+  }
+
+  if (checkRemote) {
+    notes.push('事前にfetchしてリモートの先行を確認');
+  }
+
+  return `${decision.target} へpush（${notes.join('、')}）`;
+}
+
+function describePlannedActions(request: GenerationRequest): string[] {
+  const { repository, settings } = request;
+  if (settings.abortOnSecrets && settings.autoCommitAfterGenerate && request.redactions.length > 0) {
+    return ['1. 機密情報の可能性がある内容を検出したため、生成を中止（redaction.abortOnSecrets）'];
+  }
+
+  const steps = [
+    settings.lintMaxRepairAttempts > 0
+      ? `${request.generator.label}でメッセージを生成（スタイル違反時は最大${settings.lintMaxRepairAttempts}回再生成）`
+      : `${request.generator.label}でメッセージを生成`
+  ];
+
+  if (settings.commitTrailers.length > 0) {
+    steps.push(`トレーラーを追加: ${settings.commitTrailers.join(' / ')}`);
+  }
+
+  if (settings.coAuthorRoster.length > 0) {
+    steps.push('Co-authored-by の共同作業者を選択');
+  }
+
+  steps.push('SCM入力欄にメッセージを入力');
+  const decision = decidePush(repository.state.HEAD, settings.pushPolicy);
+  const pushStep =
+    decision.kind === 'push'
+      ? describePlannedPush(decision, settings.checkRemoteBeforePush)
+      : `pushしない: ${describePushSkip(decision)}`;
+
+  if (!settings.autoCommitAfterGenerate) {
+    steps.push('自動コミットしない（autoCommitAfterGenerate=false）', `手動コミット後: ${pushStep}`);
+    return steps.map((step, index) => `${index + 1}. ${step}`);
+  }
+
+  steps.push(
+    settings.diffSource === 'staged'
+      ? 'ステージしない（現在のインデックスをコミット）'
+      : `ステージ: \`git add ${settings.diffSource === 'workingTree' ? '-u' : '-A'} -- .\``
+  );
+  const commitFlags = [
+    settings.commitOptions.signoff ? '--signoff' : '',
+    settings.commitOptions.signCommit ? '-S' : '',
+    settings.commitOptions.noVerify ? '--no-verify' : ''
+  ].filter((flag) => flag.length > 0);
+  steps.push(
+    `コミット: \`git commit${commitFlags.length > 0 ? ` ${commitFlags.join(' ')}` : ''}\`（スタイル違反が残った場合は中止）`,
+    pushStep
+  );
+  return steps.map((step, index) => `${index + 1}. ${step}`);
+}
+
+async function handlePreviewCommand(
+  api: GitAPI,
+  previewProvider: PreviewContentProvider,
+  output: vscode.OutputChannel,
+  contextArg: unknown
+): Promise<void> {
+  const request = await prepareGeneration(api, output, contextArg, { preview: true });
+  if (!request) {
+    return;
+  }
+
+  const { repository, settings, diffStats } = request;
+  const prompt = buildCommitMessagePrompt(request.diffText, settings.style.profile, 1, {
+    examples: request.examples,
+    tickets: request.tickets
+  });
+  const redactionCount = request.redactions.reduce((sum, finding) => sum + finding.count, 0);
+  const sections: PreviewSection[] = [
+    {
+      title: 'リポジトリ',
+      lines: [
+        `- パス: ${repository.rootUri.fsPath}`,
+        `- ブランチ: ${repository.state.HEAD?.name ?? '(detached)'}`,
+        `- HEAD: ${repository.state.HEAD?.commit ?? '(なし)'}`
+      ]
+    },
+    { title: '生成設定', lines: describeGeneratorForPreview(request) },
+    {
+      title: '差分',
+      lines: [
+        `- diffSource: ${settings.diffSource}`,
+        `- ${diffStats.files}ファイル（+${diffStats.added} / -${diffStats.deleted}）`,
+        `- プロンプト: ${prompt.length}文字（差分 ${request.diffText.length} / 上限 ${settings.diffMaxChars}）`,
+        `- 縮小: ${request.wasTruncated ? 'あり' : 'なし'}`,
+        `- 伏せ字: ${redactionCount}件`,
+        `- 除外ファイル: ${request.excludedFiles.length > 0 ? request.excludedFiles.join(', ') : 'なし'}`,
+        `- 文体の例: ${request.examples.length}件`,
+        `- チケット: ${request.tickets.length > 0 ? request.tickets.join(', ') : 'なし'}`
+      ]
+    },
+    {
+      title: '伏せ字',
+      lines:
+        request.redactions.length > 0
+          ? request.redactions.map((finding) => `- ${finding.path}: ${finding.kind} ×${finding.count}`)
+          : ['- なし']
+    },
+    { title: '予定される操作', lines: describePlannedActions(request) }
+  ];
+
+  output.appendLine(`[preview] Showing dry-run preview for ${repository.rootUri.fsPath}.`);
+  await previewProvider.show(
+    `${path.basename(repository.rootUri.fsPath)}-preview.md`,
+    renderPreviewDocument('commitMessage生成プレビュー（ドライラン）', sections, prompt)
+  );
+}
+
+async function runDiagnosticChecks(
+  api: GitAPI | undefined,
+  repository: GitRepository | undefined,
+  settings: ExtensionSettings,
+  cwd: string,
+  output: vscode.OutputChannel,
+  progress: vscode.Progress<{ message?: string }>
+): Promise<DiagnosticCheck[]> {
+  const checks: DiagnosticCheck[] = [
+    {
+      name: 'VS Code Git API',
+      status: api ? 'pass' : 'fail',
+      detail: api ? `${api.repositories.length}件のリポジトリを検出` : 'Git拡張のAPIを取得できませんでした。'
+    }
+  ];
+
+  let generatorAvailable = true;
+  if (settings.provider === 'codex') {
+    progress.report({ message: 'Codexコマンドを確認中...' });
+    const candidates = checkCodexCandidates(settings.codexCommandPath);
+    checks.push(candidates.check);
+    if (candidates.resolved) {
+      checks.push(await checkCodexVersion(candidates.resolved));
+      progress.report({ message: 'Codexのログイン状態を確認中...' });
+      checks.push(await checkCodexLogin(candidates.resolved));
+    } else {
+      generatorAvailable = false;
+      const detail = '実行可能なCodexコマンドが見つかりません。';
+      checks.push(
+        { name: 'codex --version', status: 'skip', detail },
+        { name: 'Codexのログイン状態', status: 'skip', detail }
+      );
+    }
+  } else {
+    checks.push({ name: 'Codexコマンドの解決', status: 'skip', detail: `provider=${settings.provider}` });
+  }
+
+  const generator = createGenerator(settings);
+  if (generatorAvailable) {
+    progress.report({ message: `モデル ${generator.model} に問い合わせ中...` });
+    checks.push(await checkModel(generator, cwd, settings.timeoutSeconds * 1000, output));
+  } else {
+    checks.push({
+      name: `モデル ${generator.model} の応答（${generator.label}）`,
+      status: 'skip',
+      detail: '実行可能なCodexコマンドが見つかりません。'
+    });
+  }
+
+  progress.report({ message: 'gitを確認中...' });
+  checks.push(await checkGit(cwd), await checkGitIdentity(repository?.rootUri.fsPath));
+  return checks;
+}
+
+async function handleDiagnoseCommand(
+  api: GitAPI | undefined,
+  previewProvider: PreviewContentProvider,
+  output: vscode.OutputChannel,
+  extensionVersion: string
+): Promise<void> {
+  const repository = api ? findActiveRepository(api) ?? api.repositories[0] : undefined;
+  const settings = getSettings(repository?.rootUri);
+  const cwd = repository?.rootUri.fsPath ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? os.homedir();
+  const checks = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: '実行環境を診断中...',
+      cancellable: false
+    },
+    async (progress) => runDiagnosticChecks(api, repository, settings, cwd, output, progress)
+  );
+
+  const environment = [
+    `拡張機能: ${extensionVersion}`,
+    `VS Code: ${vscode.version}`,
+    `OS: ${process.platform} ${process.arch} (${os.release()})`,
+    `Node.js: ${process.version}`,
+    `リポジトリ: ${repository?.rootUri.fsPath ?? '(なし)'}`,
+    `provider: ${settings.provider} / model: ${settings.model} / reasoningEffort: ${settings.reasoningEffort}`,
+    `codexCommandPath: ${settings.codexCommandPath}`
+  ];
+  const report = renderDiagnosticReport(environment, checks);
+  for (const check of checks) {
+    output.appendLine(`[diagnose] ${check.status.toUpperCase()} ${check.name}`);
+  }
+
+  await previewProvider.show('codex-commit-diagnostics.txt', report, 'plaintext');
+
+  const count = (status: DiagnosticCheck['status']): number => checks.filter((check) => check.status === status).length;
+  const summary = `成功 ${count('pass')} / 失敗 ${count('fail')} / スキップ ${count('skip')}`;
+  const saveLabel = 'テキストで保存';
+  const copyLabel = 'コピー';
+  const picked = await (count('fail') > 0
+    ? vscode.window.showWarningMessage(`診断が完了しました（${summary}）。`, saveLabel, copyLabel)
+    : vscode.window.showInformationMessage(`診断が完了しました（${summary}）。`, saveLabel, copyLabel));
+  if (picked === copyLabel) {
+    await vscode.env.clipboard.writeText(report);
+    return;
+  }
+
+  if (picked !== saveLabel) {
+    return;
+  }
+
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(path.join(os.homedir(), 'codex-commit-diagnostics.txt')),
+    filters: { Text: ['txt'] }
+  });
+  if (target) {
+    await vscode.workspace.fs.writeFile(target, Buffer.from(report, 'utf8'));
+    output.appendLine(`[diagnose] Report saved to ${target.fsPath}.`);
+  }
+}
+
+async function handleAmendCommand(
+  api: GitAPI,
+  pendingState: PendingCommitState,
+  history: GenerationHistory,
+  output: vscode.OutputChannel,
+  contextArg: unknown
+): Promise<void> {
+  const repository = await resolveRepository(api, contextArg);
+  if (!repository) {
+    vscode.window.showWarningMessage('Gitリポジトリを特定できませんでした。');
+    return;
+  }
+
+  const repositoryPath = repository.rootUri.fsPath;
+  let headCommit: GitCommit;
+  try {
+    headCommit = await repository.getCommit('HEAD');
+  } catch {
+    vscode.window.showWarningMessage('amendできるコミットがありません。');
+    return;
+  }
+
+  const parent = resolveAmendParent(headCommit);
+  if (!parent) {
+    vscode.window.showWarningMessage('マージコミットのamendには対応していません。');
+    return;
+  }
+
+  const settings = getSettings(repository.rootUri);
+  if (!settings.amendIncludeStaged && (await hasStagedChanges(repositoryPath))) {
+    vscode.window.showWarningMessage(
+      'ステージ済みの変更があるため、amendを中止しました。変更を含める場合は amend.includeStaged を有効にしてください。'
+    );
+    return;
+  }
+
+  let remoteBranches: string[] = [];
+  try {
+    remoteBranches = await listRemoteBranchesContaining(repositoryPath, headCommit.hash);
+  } catch (error) {
+    output.appendLine(`[amend] Failed to check remote branches: ${toErrorMessage(error)}`);
+  }
+
+  if (remoteBranches.length > 0) {
+    output.appendLine(`[amend] HEAD ${headCommit.hash} is already pushed to ${remoteBranches.join(', ')}.`);
+    const confirm = 'amendしてforce-with-lease';
+    const picked = await vscode.window.showWarningMessage(
+      `HEAD は既に ${remoteBranches.join(', ')} にpushされています。amend後に force-with-lease でpushしますか？`,
+      { modal: true },
+      confirm
+    );
+    if (picked !== confirm) {
+      output.appendLine('[amend] Cancelled because HEAD is already pushed.');
+      return;
+    }
+  }
+
+  const prepared = await prepareRepositoryGeneration(repository, output, {
+    amend: { parent, includeStaged: settings.amendIncludeStaged },
+    commitsImmediately: true
+  });
+  if (prepared.kind === 'skipped') {
+    return;
+  }
+
+  const { request } = prepared;
+
+  const prompt = buildCommitMessagePrompt(request.diffText, settings.style.profile, 1, {
+    examples: request.examples,
+    tickets: request.tickets
+  });
+
+  try {
+    const generated = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `${request.generator.label}でamend用のcommitMessageを生成中...`,
+        cancellable: true
+      },
+      async (progress, token) => generateWithRepair(request, prompt, output, progress, token)
+    );
+
+    const previousTrailers = extractTrailers(headCommit.message).filter(
+      (trailer) => stripSignoffTrailers(trailer).length > 0
+    );
+    const message = appendTrailers(generated, [...previousTrailers, ...settings.commitTrailers]);
+    const violations = lintMessage(generated, request);
+    for (const violation of violations) {
+      output.appendLine(`[lint] ${violation}`);
+    }
+
+    const amendLabel = 'amendする';
+    const confirmed = await vscode.window.showInformationMessage(
+      '生成したメッセージで直前のコミットをamendしますか？',
+      {
+        modal: true,
+        detail: [
+          `変更前: ${normalizeCommitMessage(headCommit.message)}`,
+          `変更後: ${message}`,
+          ...(violations.length > 0 ? [`スタイル違反: ${violations.join(' / ')}`] : [])
+        ].join('\n\n')
+      },
+      amendLabel
+    );
+    if (confirmed !== amendLabel) {
+      output.appendLine('[amend] Amend cancelled by the user.');
+      return;
+    }
+
+    const historyEntry = await recordHistoryEntry(history, request, {
+      message,
+      promptChars: prompt.length,
+      edited: false
+    });
+
+    await commitWithOptions(repository, message, settings.commitOptions, output, true);
+    const amended = await repository.getCommit('HEAD');
+    output.appendLine(`[amend] Amended ${headCommit.hash} into ${amended.hash}.`);
+    const outcome: Partial<GenerationHistoryEntry> = { commitHash: amended.hash };
+
+    if (remoteBranches.length === 0) {
+      vscode.window.showInformationMessage('直前のコミットをamendしました。');
+    } else {
+      const decision = decidePush(repository.state.HEAD, settings.pushPolicy);
+      if (decision.kind === 'skip') {
+        outcome.pushResult = 'skipped';
+        outcome.pushDetail = decision.reason;
+        vscode.window.showInformationMessage(
+          `直前のコミットをamendしました。${describePushSkip(decision)}force-with-lease pushは行いません。`
+        );
+      } else {
+        try {
+          output.appendLine(`[amend] Pushing with force-with-lease: ${decision.remote} ${decision.refspec}`);
+          await repository.push(decision.remote, decision.refspec, decision.setUpstream, ForcePushMode.ForceWithLease);
+          outcome.pushResult = 'pushed';
+          outcome.pushDetail = decision.target;
+          vscode.window.showInformationMessage(`amendしたコミットを ${decision.target} へ force-with-lease でpushしました。`);
+        } catch (error) {
+          const pushError = toErrorMessage(error);
+          outcome.pushResult = 'failed';
+          outcome.pushDetail = pushError;
+          output.appendLine(`[amend] Force-with-lease push failed: ${pushError}`);
+          vscode.window.showErrorMessage(`amend後の force-with-lease pushに失敗しました: ${pushError}`);
+        }
+      }
+    }
+
+    await history.update(historyEntry.id, outcome);
+  } catch (error) {
+    reportGenerationError(error, request, pendingState, output);
+  }
+}
+
+async function handleDisarmAutoPushCommand(
+  api: GitAPI,
+  pendingState: PendingCommitState,
+  history: GenerationHistory,
+  output: vscode.OutputChannel,
+  contextArg: unknown
+): Promise<void> {
+  const repository = await resolveRepository(api, contextArg);
+  if (!repository) {
+    vscode.window.showWarningMessage('Gitリポジトリを特定できませんでした。');
+    return;
+  }
+
+  const pending = pendingState.get(repository);
+  if (!pending) {
+    vscode.window.showInformationMessage('自動push待機中の生成メッセージはありません。');
+    return;
+  }
+
+  await pendingState.clear(repository);
+  if (pending.historyId) {
+    await history.update(pending.historyId, { pushResult: 'skipped', pushDetail: 'disarmed' });
+  }
+
+  output.appendLine(`[push] Auto-push disarmed for ${repository.rootUri.fsPath}.`);
+  vscode.window.showInformationMessage('自動pushを解除しました。');
+}
+
+async function handleShowHistoryCommand(
+  api: GitAPI,
+  history: GenerationHistory,
+  output: vscode.OutputChannel,
+  contextArg: unknown
+): Promise<void> {
+  const entries = history.list();
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage('commitMessageの生成履歴はまだありません。');
+    return;
+  }
+
+  const picked = await pickHistoryEntry(entries);
+  if (!picked) {
+    return;
+  }
+
+  if (picked.kind === 'clear') {
+    const confirmed = await vscode.window.showWarningMessage(
+      `commitMessageの生成履歴 ${entries.length} 件を消去しますか？`,
+      { modal: true },
+      '消去'
+    );
+    if (confirmed === '消去') {
+      await history.clear();
+      output.appendLine('[history] Generation history cleared.');
+    }
+
+    return;
+  }
+
+  const repository =
+    api.getRepository(vscode.Uri.file(picked.entry.repositoryPath)) ?? (await resolveRepository(api, contextArg));
+  if (!repository) {
+    vscode.window.showWarningMessage('Gitリポジトリを特定できませんでした。');
+    return;
+  }
+
+  repository.inputBox.value = picked.entry.message;
+  output.appendLine(`[history] Reinserted message generated at ${new Date(picked.entry.createdAt).toISOString()}.`);
+}
+
+export async function activate(context: vscode.ExtensionContext): Promise<void> {
+  const output = vscode.window.createOutputChannel(OUTPUT_CHANNEL_NAME);
+  context.subscriptions.push(output);
+
+  const previewProvider = new PreviewContentProvider();
+  context.subscriptions.push(
+    previewProvider,
+    vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, previewProvider)
+  );
+
+  let diagnosticApi: GitAPI | undefined;
+  const diagnoseCommand = vscode.commands.registerCommand(DIAGNOSE_COMMAND_ID, async () => {
+    await handleDiagnoseCommand(diagnosticApi, previewProvider, output, String(context.extension.packageJSON.version));
+  });
+  context.subscriptions.push(diagnoseCommand);
+
+  let api: GitAPI;
+  try {
+    api = await getGitApi();
+  } catch (error) {
+    const message = toErrorMessage(error);
+    output.appendLine(`[activate] Failed to initialize Git API: ${message}`);
+    vscode.window.showErrorMessage(`Codex Commit Push: Git API初期化に失敗しました: ${message}`);
+    return;
+  }
+
+  diagnosticApi = api;
+
+  const pendingState = new PendingCommitState(context.workspaceState);
+  context.subscriptions.push(pendingState);
+  const history = new GenerationHistory(context.workspaceState, () =>
+    vscode.workspace.getConfiguration(CONFIG_NAMESPACE).get<number>('historyMaxEntries', 200)
+  );
+  const pushInFlight = new Set<string>();
+  context.subscriptions.push(registerCommitListeners(api, pendingState, history, output, pushInFlight));
+
+  const responseCache = new ResponseCache(path.join(context.globalStorageUri.fsPath, 'response-cache'), () => {
+    const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
+    return {
+      maxAgeMs: Math.max(0, config.get<number>('cache.maxAgeHours', 24)) * 60 * 60 * 1000,
+      maxBytes: Math.max(0, config.get<number>('cache.maxSizeKB', 1024)) * 1024
+    };
+  });
 
   const generateCommand = vscode.commands.registerCommand(COMMAND_ID, async (contextArg: unknown) => {
-    await handleGenerateCommand(api, pendingState, output, pushInFlight, contextArg);
+    await handleGenerateCommand(api, pendingState, history, output, pushInFlight, responseCache, false, contextArg);
   });
   context.subscriptions.push(generateCommand);
 
+  const forceGenerateCommand = vscode.commands.registerCommand(FORCE_COMMAND_ID, async (contextArg: unknown) => {
+    await handleGenerateCommand(api, pendingState, history, output, pushInFlight, responseCache, true, contextArg);
+  });
+  context.subscriptions.push(forceGenerateCommand);
+
+  const generateCandidatesCommand = vscode.commands.registerCommand(
+    CANDIDATES_COMMAND_ID,
+    async (contextArg: unknown) => {
+      await handleGenerateCandidatesCommand(api, pendingState, history, output, pushInFlight, contextArg);
+    }
+  );
+  context.subscriptions.push(generateCandidatesCommand);
+
+  const historyCommand = vscode.commands.registerCommand(HISTORY_COMMAND_ID, async (contextArg: unknown) => {
+    await handleShowHistoryCommand(api, history, output, contextArg);
+  });
+  context.subscriptions.push(historyCommand);
+
+  const disarmCommand = vscode.commands.registerCommand(DISARM_COMMAND_ID, async (contextArg: unknown) => {
+    await handleDisarmAutoPushCommand(api, pendingState, history, output, contextArg);
+  });
+  context.subscriptions.push(disarmCommand);
+
+  const previewCommand = vscode.commands.registerCommand(PREVIEW_COMMAND_ID, async (contextArg: unknown) => {
+    await handlePreviewCommand(api, previewProvider, output, contextArg);
+  });
+  context.subscriptions.push(previewCommand);
+
+  const batchCommand = vscode.commands.registerCommand(BATCH_COMMAND_ID, async () => {
+    await handleBatchGenerateCommand(api, pendingState, history, output, pushInFlight);
+  });
+  context.subscriptions.push(batchCommand);
+
+  const planCommand = vscode.commands.registerCommand(PLAN_COMMAND_ID, async (contextArg: unknown) => {
+    await handlePlanCommitsCommand(api, pendingState, history, output, pushInFlight, contextArg);
+  });
+  context.subscriptions.push(planCommand);
+
+  const amendCommand = vscode.commands.registerCommand(AMEND_COMMAND_ID, async (contextArg: unknown) => {
+    await handleAmendCommand(api, pendingState, history, output, contextArg);
+  });
+  context.subscriptions.push(amendCommand);
+
+  context.subscriptions.push(
+    new AutoPushStatusBar(
+      api,
+      pendingState,
+      (repository) => getSettings(repository.rootUri).pendingExpiryMinutes,
+      DISARM_COMMAND_ID
+    )
+  );
+
   output.appendLine('[activate] Extension activated.');
 }
 
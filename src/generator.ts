@@ -0,0 +1,182 @@
+import * as vscode from 'vscode';
+import { normalizeCommitMessage } from './commitMessage';
+
+export type GeneratorErrorCode =
+  | 'not-found'
+  | 'timeout'
+  | 'model-access'
+  | 'auth-failed'
+  | 'process-failed'
+  | 'request-failed'
+  | 'parse-failed'
+  | 'empty-response'
+  | 'cancelled';
+
+export class GeneratorError extends Error {
+  constructor(
+    public readonly code: GeneratorErrorCode,
+    message: string,
+    public readonly details?: string
+  ) {
+    super(message);
+  }
+}
+
+export interface GenerateRequest {
+  prompt: string;
+  cwd: string;
+  timeoutMs: number;
+  output: vscode.OutputChannel;
+  cancellationToken?: vscode.CancellationToken;
+  onProgress?: (message: string) => void;
+}
+
+export interface CommitMessageGenerator {
+  readonly label: string;
+  readonly model: string;
+  generate(request: GenerateRequest): Promise<string>;
+}
+
+export function tail(text: string, maxChars: number): string {
+  if (text.length <= maxChars) {
+    return text;
+  }
+
+  return text.slice(text.length - maxChars);
+}
+
+function stripQuotes(line: string): string {
+  return line.replace(/^["'`]+|["'`]+$/g, '').trim();
+}
+
+function normalizeGeneratedMessage(raw: string, multiline: boolean): string {
+  if (!multiline) {
+    const firstLine =
+      raw
+        .split(/\r?\n/g)
+        .map((line) => line.trim())
+        .find((line) => line.length > 0) ?? '';
+
+    return stripQuotes(firstLine);
+  }
+
+  const lines = normalizeCommitMessage(raw)
+    .split('\n')
+    .filter((line) => !/^\s*```/.test(line));
+  const subjectIndex = lines.findIndex((line) => line.trim().length > 0);
+  if (subjectIndex < 0) {
+    return '';
+  }
+
+  const subject = stripQuotes(lines[subjectIndex].trim());
+  const body = normalizeCommitMessage(lines.slice(subjectIndex + 1).join('\n'));
+  return body ? `${subject}\n\n${body}` : subject;
+}
+
+export async function generateCommitMessage(
+  generator: CommitMessageGenerator,
+  request: GenerateRequest,
+  multiline: boolean
+): Promise<string> {
+  const raw = await generator.generate(request);
+  const normalized = normalizeGeneratedMessage(raw, multiline);
+  if (!normalized) {
+    throw new GeneratorError('empty-response', 'Generated message is empty after normalization.');
+  }
+
+  return normalized;
+}
+
+function parseCandidateArray(raw: string): unknown[] | undefined {
+  const start = raw.indexOf('[');
+  const end = raw.lastIndexOf(']');
+  if (start < 0 || end <= start) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(raw.slice(start, end + 1)) as unknown;
+    return Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function generateCommitMessageCandidates(
+  generator: CommitMessageGenerator,
+  request: GenerateRequest,
+  multiline: boolean
+): Promise<string[]> {
+  const raw = await generator.generate(request);
+  const parsed = parseCandidateArray(raw);
+  if (!parsed) {
+    throw new GeneratorError(
+      'parse-failed',
+      'The generator did not return a JSON array of commit message candidates.',
+      tail(raw, 4000)
+    );
+  }
+
+  const candidates: string[] = [];
+  for (const item of parsed) {
+    if (typeof item !== 'string') {
+      continue;
+    }
+
+    const normalized = normalizeGeneratedMessage(item, multiline);
+    if (normalized && !candidates.includes(normalized)) {
+      candidates.push(normalized);
+    }
+  }
+
+  if (candidates.length === 0) {
+    throw new GeneratorError('empty-response', 'All generated candidates are empty after normalization.');
+  }
+
+  return candidates;
+}
+
+export interface GeneratedCommitGroup {
+  message: string;
+  files: string[];
+}
+
+export async function generateCommitPlan(
+  generator: CommitMessageGenerator,
+  request: GenerateRequest,
+  multiline: boolean
+): Promise<GeneratedCommitGroup[]> {
+  const raw = await generator.generate(request);
+  const parsed = parseCandidateArray(raw);
+  if (!parsed) {
+    throw new GeneratorError(
+      'parse-failed',
+      'The generator did not return a JSON array of planned commits.',
+      tail(raw, 4000)
+    );
+  }
+
+  const groups: GeneratedCommitGroup[] = [];
+  for (const item of parsed) {
+    if (typeof item !== 'object' || item === null) {
+      continue;
+    }
+
+    const { message, files } = item as { message?: unknown; files?: unknown };
+    const normalized = typeof message === 'string' ? normalizeGeneratedMessage(message, multiline) : '';
+    if (!normalized || !Array.isArray(files)) {
+      continue;
+    }
+
+    groups.push({
+      message: normalized,
+      files: files.filter((file): file is string => typeof file === 'string')
+    });
+  }
+
+  if (groups.length === 0) {
+    throw new GeneratorError('empty-response', 'The generated commit plan contains no usable commits.');
+  }
+
+  return groups;
+}
@@ -1,14 +1,29 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
 
+export interface GitUpstreamRef {
+  readonly remote: string;
+  readonly name: string;
+}
+
 export interface GitBranch {
   readonly name?: string;
   readonly commit?: string;
+  readonly upstream?: GitUpstreamRef;
+  readonly ahead?: number;
+  readonly behind?: number;
+}
+
+export enum ForcePushMode {
+  Force,
+  ForceWithLease,
+  ForceWithLeaseIfIncludes
 }
 
 export interface GitCommit {
   readonly hash: string;
   readonly message: string;
+  readonly parents: string[];
 }
 
 export interface GitCommitOptions {
@@ -28,10 +43,12 @@ export interface GitRepository {
   readonly rootUri: vscode.Uri;
   readonly inputBox: { value: string };
   readonly state: { readonly HEAD: GitBranch | undefined };
-  readonly ui: { readonly selected: boolean };
+  readonly ui: { readonly selected: boolean; readonly onDidChange?: vscode.Event<void> };
   readonly onDidCommit: vscode.Event<void>;
   commit(message: string, opts?: GitCommitOptions): Promise<void>;
-  push(remoteName?: string, branchName?: string, setUpstream?: boolean): Promise<void>;
+  status(): Promise<void>;
+  fetch(remote?: string, ref?: string, depth?: number): Promise<void>;
+  push(remoteName?: string, branchName?: string, setUpstream?: boolean, force?: ForcePushMode): Promise<void>;
   getCommit(ref: string): Promise<GitCommit>;
 }
 
@@ -139,12 +156,7 @@ interface RepositoryQuickPickItem extends vscode.QuickPickItem {
   readonly repository: GitRepository;
 }
 
-export async function resolveRepository(api: GitAPI, contextArg: unknown): Promise<GitRepository | undefined> {
-  const fromArg = tryResolveRepositoryFromArg(api, contextArg);
-  if (fromArg) {
-    return fromArg;
-  }
-
+export function findActiveRepository(api: GitAPI): GitRepository | undefined {
   const selectedRepositories = api.repositories.filter((repo) => repo.ui?.selected);
   if (selectedRepositories.length === 1) {
     return selectedRepositories[0];
@@ -162,6 +174,20 @@ export async function resolveRepository(api: GitAPI, contextArg: unknown): Promi
     return api.repositories[0];
   }
 
+  return undefined;
+}
+
+export async function resolveRepository(api: GitAPI, contextArg: unknown): Promise<GitRepository | undefined> {
+  const fromArg = tryResolveRepositoryFromArg(api, contextArg);
+  if (fromArg) {
+    return fromArg;
+  }
+
+  const active = findActiveRepository(api);
+  if (active) {
+    return active;
+  }
+
   if (api.repositories.length === 0) {
     return undefined;
   }
@@ -0,0 +1,17 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+const GIT_TIMEOUT_MS = 30_000;
+const GIT_MAX_BUFFER_BYTES = 16 * 1024 * 1024;
+
+export async function runGit(repositoryPath: string, args: string[], timeoutMs = GIT_TIMEOUT_MS): Promise<string> {
+  const result = await execFileAsync('git', ['-C', repositoryPath, '-c', 'core.quotepath=false', ...args], {
+    encoding: 'utf8',
+    windowsHide: true,
+    timeout: timeoutMs,
+    maxBuffer: GIT_MAX_BUFFER_BYTES
+  });
+
+  return result.stdout ?? '';
+}
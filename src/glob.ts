@@ -0,0 +1,34 @@
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let index = 0; index < glob.length; index += 1) {
+    const char = glob[index];
+    if (char === '*' && glob[index + 1] === '*') {
+      source += glob[index + 2] === '/' ? '(?:.*/)?' : '.*';
+      index += glob[index + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+export function matchGlob(text: string, patterns: string[]): string | undefined {
+  return patterns.find((pattern) => globToRegExp(pattern.trim()).test(text));
+}
+
+export function matchPathGlob(filePath: string, patterns: string[]): string | undefined {
+  const baseName = filePath.split('/').pop() ?? filePath;
+  return patterns.find((pattern) => {
+    const trimmed = pattern.trim();
+    return globToRegExp(trimmed).test(trimmed.includes('/') ? filePath : baseName);
+  });
+}
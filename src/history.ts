@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import { DiffStats } from './diffCollector';
+
+export type HistoryPushResult = 'pushed' | 'skipped' | 'failed';
+
+export interface GenerationHistoryEntry {
+  id: string;
+  createdAt: number;
+  repositoryPath: string;
+  branch?: string;
+  provider: string;
+  model: string;
+  reasoningEffort: string;
+  diffStats: DiffStats;
+  promptChars: number;
+  message: string;
+  edited: boolean;
+  commitHash?: string;
+  pushResult?: HistoryPushResult;
+  pushDetail?: string;
+}
+
+const HISTORY_STORAGE_KEY = 'codexCommitPush.generationHistory';
+
+export class GenerationHistory {
+  public constructor(
+    private readonly storage: vscode.Memento,
+    private readonly getMaxEntries: () => number
+  ) {}
+
+  public list(): GenerationHistoryEntry[] {
+    return this.storage.get<GenerationHistoryEntry[]>(HISTORY_STORAGE_KEY, []);
+  }
+
+  public async add(entry: Omit<GenerationHistoryEntry, 'id' | 'createdAt'>): Promise<GenerationHistoryEntry> {
+    const createdAt = Date.now();
+    const added: GenerationHistoryEntry = {
+      ...entry,
+      id: `${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      createdAt
+    };
+
+    const maxEntries = Math.max(0, this.getMaxEntries());
+    await this.storage.update(HISTORY_STORAGE_KEY, [added, ...this.list()].slice(0, maxEntries));
+    return added;
+  }
+
+  public async update(id: string, patch: Partial<Omit<GenerationHistoryEntry, 'id' | 'createdAt'>>): Promise<void> {
+    const entries = this.list();
+    const index = entries.findIndex((entry) => entry.id === id);
+    if (index < 0) {
+      return;
+    }
+
+    entries[index] = { ...entries[index], ...patch };
+    await this.storage.update(HISTORY_STORAGE_KEY, entries);
+  }
+
+  public async clear(): Promise<void> {
+    await this.storage.update(HISTORY_STORAGE_KEY, undefined);
+  }
+}
@@ -0,0 +1,89 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { GenerationHistoryEntry, HistoryPushResult } from './history';
+
+export type HistoryPickResult =
+  | { readonly kind: 'reinsert'; readonly entry: GenerationHistoryEntry }
+  | { readonly kind: 'clear' };
+
+interface HistoryQuickPickItem extends vscode.QuickPickItem {
+  readonly entry: GenerationHistoryEntry;
+}
+
+const CLEAR_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon('clear-all'),
+  tooltip: '履歴を消去'
+};
+
+function describePushResult(entry: GenerationHistoryEntry): string {
+  if (!entry.commitHash) {
+    return '未コミット';
+  }
+
+  const labels: Record<HistoryPushResult, string> = {
+    pushed: 'push済み',
+    skipped: 'pushスキップ',
+    failed: 'push失敗'
+  };
+  const result = entry.pushResult ? labels[entry.pushResult] : 'push未実行';
+  return `$(git-commit) ${entry.commitHash.slice(0, 7)} ${result}`;
+}
+
+function toHistoryItem(entry: GenerationHistoryEntry): HistoryQuickPickItem {
+  const [subject] = entry.message.split('\n');
+  const { files, added, deleted } = entry.diffStats;
+  const details = [
+    new Date(entry.createdAt).toLocaleString(),
+    path.basename(entry.repositoryPath),
+    `${files} files +${added} -${deleted}`,
+    `prompt ${entry.promptChars} chars`,
+    describePushResult(entry)
+  ];
+  if (entry.edited) {
+    details.push('$(edit) 編集あり');
+  }
+
+  return {
+    label: subject,
+    description: `${entry.branch ?? '(detached)'} · ${entry.model} (${entry.reasoningEffort})`,
+    detail: details.join(' · '),
+    entry
+  };
+}
+
+export function pickHistoryEntry(entries: GenerationHistoryEntry[]): Promise<HistoryPickResult | undefined> {
+  return new Promise((resolve) => {
+    const quickPick = vscode.window.createQuickPick<HistoryQuickPickItem>();
+    quickPick.title = 'commitMessage生成履歴';
+    quickPick.placeholder = '入力欄へ戻すcommitMessageを選択';
+    quickPick.items = entries.map(toHistoryItem);
+    quickPick.buttons = [CLEAR_BUTTON];
+    quickPick.matchOnDescription = true;
+    quickPick.matchOnDetail = true;
+
+    let result: HistoryPickResult | undefined;
+    const disposables: vscode.Disposable[] = [
+      quickPick.onDidAccept(() => {
+        const [item] = quickPick.selectedItems;
+        if (item) {
+          result = { kind: 'reinsert', entry: item.entry };
+          quickPick.hide();
+        }
+      }),
+      quickPick.onDidTriggerButton(() => {
+        result = { kind: 'clear' };
+        quickPick.hide();
+      }),
+      quickPick.onDidHide(() => {
+        for (const disposable of disposables) {
+          disposable.dispose();
+        }
+
+        quickPick.dispose();
+        resolve(result);
+      })
+    ];
+
+    quickPick.show();
+  });
+}
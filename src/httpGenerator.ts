@@ -0,0 +1,129 @@
+import { CommitMessageGenerator, GenerateRequest, GeneratorError, tail } from './generator';
+
+export interface HttpGeneratorOptions {
+  baseUrl: string;
+  model: string;
+  apiKey: string | undefined;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+    };
+  }>;
+}
+
+function buildCompletionsUrl(baseUrl: string): string {
+  return `${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`;
+}
+
+async function requestChatCompletion(options: HttpGeneratorOptions, request: GenerateRequest): Promise<string> {
+  const url = buildCompletionsUrl(options.baseUrl);
+  request.output.appendLine(`[http] POST ${url} model=${options.model} <prompt>`);
+
+  if (request.cancellationToken?.isCancellationRequested) {
+    throw new GeneratorError('cancelled', 'Generation was cancelled.');
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutHandle = setTimeout(() => {
+    timedOut = true;
+    request.output.appendLine(`[http] Timed out after ${request.timeoutMs} ms.`);
+    controller.abort();
+  }, request.timeoutMs);
+  const cancellationListener = request.cancellationToken?.onCancellationRequested(() => {
+    request.output.appendLine('[http] Cancellation requested. Aborting request.');
+    controller.abort();
+  });
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (options.apiKey) {
+    headers.Authorization = `Bearer ${options.apiKey}`;
+  }
+
+  try {
+    request.onProgress?.('リクエストを送信中...');
+    let response: Response;
+    let bodyText: string;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: options.model,
+          messages: [{ role: 'user', content: request.prompt }],
+          stream: false
+        }),
+        signal: controller.signal
+      });
+      request.onProgress?.('応答を受信中...');
+      bodyText = await response.text();
+    } catch (error) {
+      if (timedOut) {
+        throw new GeneratorError('timeout', `HTTP generation timed out after ${request.timeoutMs} ms.`);
+      }
+
+      if (controller.signal.aborted) {
+        throw new GeneratorError('cancelled', 'Generation was cancelled.');
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      throw new GeneratorError('request-failed', `Failed to reach ${url}: ${message}`);
+    }
+
+    if (!response.ok) {
+      if (response.status === 404 && !(options.model && bodyText.includes(options.model))) {
+        throw new GeneratorError(
+          'process-failed',
+          `HTTP 404 from ${url}. Check the base URL.`,
+          `URL: ${url}\n${tail(bodyText, 4000)}`
+        );
+      }
+
+      if (response.status === 401) {
+        throw new GeneratorError(
+          'auth-failed',
+          `Authentication failed for ${url} (HTTP 401).`,
+          tail(bodyText, 4000)
+        );
+      }
+
+      if (response.status === 403 || response.status === 404) {
+        throw new GeneratorError(
+          'model-access',
+          `Model access error for "${options.model}" (HTTP ${response.status}).`,
+          tail(bodyText, 4000)
+        );
+      }
+
+      throw new GeneratorError('request-failed', `HTTP ${response.status} from ${url}.`, tail(bodyText, 4000));
+    }
+
+    let parsed: ChatCompletionResponse;
+    try {
+      parsed = JSON.parse(bodyText) as ChatCompletionResponse;
+    } catch {
+      throw new GeneratorError('parse-failed', 'Response body is not valid JSON.', tail(bodyText, 4000));
+    }
+
+    const content = parsed.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new GeneratorError('parse-failed', 'No message content was found in the response.', tail(bodyText, 4000));
+    }
+
+    return content;
+  } finally {
+    clearTimeout(timeoutHandle);
+    cancellationListener?.dispose();
+  }
+}
+
+export function createHttpGenerator(options: HttpGeneratorOptions): CommitMessageGenerator {
+  return {
+    label: 'OpenAI-compatible HTTP',
+    model: options.model,
+    generate: (request) => requestChatCompletion(options, request)
+  };
+}
@@ -0,0 +1,45 @@
+import * as vscode from 'vscode';
+
+export const PREVIEW_SCHEME = 'codex-commit-preview';
+
+export interface PreviewSection {
+  title: string;
+  lines: string[];
+}
+
+export class PreviewContentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  private readonly documents = new Map<string, string>();
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+  public readonly onDidChange = this.onDidChangeEmitter.event;
+
+  public provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.documents.get(uri.toString()) ?? '';
+  }
+
+  public async show(fileName: string, content: string, languageId = 'markdown'): Promise<void> {
+    const uri = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: `/${fileName}` });
+    this.documents.set(uri.toString(), content);
+    this.onDidChangeEmitter.fire(uri);
+
+    const document = await vscode.workspace.openTextDocument(uri);
+    await vscode.languages.setTextDocumentLanguage(document, languageId);
+    await vscode.window.showTextDocument(document, { preview: true });
+  }
+
+  public dispose(): void {
+    this.onDidChangeEmitter.dispose();
+    this.documents.clear();
+  }
+}
+
+export function renderPreviewDocument(title: string, sections: PreviewSection[], prompt: string): string {
+  const lines = [`# ${title}`, ''];
+  for (const section of sections) {
+    lines.push(`## ${section.title}`, '', ...section.lines, '');
+  }
+
+  const fence = prompt.includes('```') ? '~~~~' : '```';
+  lines.push('## プロンプト', '', `${fence}text`, prompt, fence, '');
+  return lines.join('\n');
+}
@@ -0,0 +1,25 @@
+import { ChildProcess } from 'child_process';
+
+const KILL_GRACE_PERIOD_MS = 3_000;
+const NOT_FOUND_LIKE_ERROR_CODES = new Set(['ENOENT', 'EINVAL', 'ENOEXEC', 'EACCES']);
+
+export const EXEC_FAILURE_EXIT_CODE = 127;
+
+export function toErrno(error: unknown): NodeJS.ErrnoException {
+  return error as NodeJS.ErrnoException;
+}
+
+export function isNotFoundLikeSpawnError(error: unknown): boolean {
+  const errnoError = toErrno(error);
+  return errnoError.code !== undefined && NOT_FOUND_LIKE_ERROR_CODES.has(errnoError.code);
+}
+
+export function terminateChild(child: ChildProcess): void {
+  child.kill();
+  const forceKillHandle = setTimeout(() => {
+    if (child.exitCode === null && child.signalCode === null) {
+      child.kill('SIGKILL');
+    }
+  }, KILL_GRACE_PERIOD_MS);
+  child.once('close', () => clearTimeout(forceKillHandle));
+}
@@ -1,22 +1,177 @@
-export function buildCommitMessagePrompt(diffText: string): string {
-  return [
+import { StyleProfile } from './styleProfiles';
+
+export interface PromptContext {
+  examples?: string[];
+  tickets?: string[];
+}
+
+function buildFormatRules(profile: StyleProfile): string[] {
+  const lengthRule = `${profile.minLength} to ${profile.maxLength} characters`;
+  if (profile.format === 'subjectAndBody') {
+    return [
+      '- The first line is the subject.',
+      `- The subject is ${lengthRule}.`,
+      '- The second line is blank.',
+      '- The body follows the blank line as "- " bullets describing what changed and why.',
+      `- Wrap body lines at ${profile.bodyWrapColumn} characters.`
+    ];
+  }
+
+  return ['- Output exactly one line.', `- ${lengthRule}.`];
+}
+
+function buildPrefixRules(profile: StyleProfile): string[] {
+  if (!profile.conventionalCommits) {
+    return ['- No prefixes like feat/fix/chore.'];
+  }
+
+  const rules = ['- Use Conventional Commits format: type(scope): description.'];
+  if (profile.allowedTypes.length > 0) {
+    rules.push(`- Allowed types: ${profile.allowedTypes.join(', ')}.`);
+  }
+
+  if (profile.allowedScopes.length > 0) {
+    rules.push(`- Allowed scopes: ${profile.allowedScopes.join(', ')}. Omit the scope if none fits.`);
+  }
+
+  return rules;
+}
+
+function buildSubjectRules(profile: StyleProfile): string[] {
+  const rules: string[] = [];
+  if (profile.forbiddenPrefixes.length > 0) {
+    rules.push(`- The subject must not start with: ${profile.forbiddenPrefixes.join(', ')}.`);
+  }
+
+  if (profile.forbidTrailingPunctuation) {
+    rules.push('- The subject must not end with punctuation.');
+  }
+
+  if (profile.subjectPattern) {
+    rules.push(`- The subject must match the regular expression /${profile.subjectPattern}/.`);
+  }
+
+  return rules;
+}
+
+function buildReturnInstruction(profile: StyleProfile, candidateCount: number): string {
+  if (candidateCount > 1) {
+    return `Return only a JSON array of exactly ${candidateCount} distinct candidate commit messages as strings. Each string must follow the rules above.`;
+  }
+
+  return profile.format === 'subject'
+    ? 'Return only the final commit message line.'
+    : 'Return only the final commit message.';
+}
+
+function buildMessageRules(profile: StyleProfile): string[] {
+  const rules = [...buildFormatRules(profile)];
+  if (profile.language) {
+    rules.push(`- ${profile.language} only.`);
+  }
+
+  rules.push('- No markdown.', '- No quotes.');
+  if (profile.format === 'subject') {
+    rules.push('- No bullets.');
+  }
+
+  rules.push(...buildPrefixRules(profile), ...buildSubjectRules(profile), '- Focus on concrete code changes.');
+  return rules;
+}
+
+function buildContextSections(profile: StyleProfile, context: PromptContext): string[] {
+  const lines: string[] = [];
+  if (profile.customInstructions) {
+    lines.push('', 'Additional instructions:', profile.customInstructions);
+  }
+
+  const { examples = [], tickets = [] } = context;
+  if (examples.length > 0) {
+    lines.push(
+      '',
+      'Recent commit messages in this repository (match their tone and wording, not their content):',
+      ...examples.map((example) => `- ${example}`)
+    );
+  }
+
+  if (tickets.length > 0) {
+    lines.push(
+      '',
+      `This change belongs to ticket ${tickets.join(', ')}. Do not write the ticket ID; it is added automatically.`
+    );
+  }
+
+  return lines;
+}
+
+export function buildCommitMessagePrompt(
+  diffText: string,
+  profile: StyleProfile,
+  candidateCount = 1,
+  context: PromptContext = {}
+): string {
+  const lines = [
     'You generate git commit messages.',
-    'Create a single commit message line from the provided diff.',
+    profile.format === 'subject'
+      ? 'Create a single commit message line from the provided diff.'
+      : 'Create a commit message with a subject line and a body from the provided diff.',
     '',
     'Strict output rules:',
-    '- Output exactly one line.',
-    '- Japanese only.',
-    '- 30 to 50 characters.',
-    '- No markdown.',
-    '- No quotes.',
-    '- No bullets.',
-    '- No prefixes like feat/fix/chore.',
-    '- Focus on concrete code changes.',
+    ...buildMessageRules(profile),
+    ...buildContextSections(profile, context),
     '',
-    'Return only the final commit message line.',
+    buildReturnInstruction(profile, candidateCount),
     '',
     '<diff>',
     diffText,
     '</diff>'
+  ];
+
+  return lines.join('\n');
+}
+
+export function buildCommitPlanPrompt(
+  diffText: string,
+  files: string[],
+  profile: StyleProfile,
+  maxCommits: number,
+  context: PromptContext = {}
+): string {
+  const lines = [
+    'You plan git commits.',
+    'Split the provided changes into coherent commits, each covering one logical change.',
+    'Order the commits so that each one builds on the previous ones.',
+    '',
+    'Changed files:',
+    ...files.map((file) => `- ${file}`),
+    '',
+    'Strict rules for every commit message:',
+    ...buildMessageRules(profile),
+    ...buildContextSections(profile, context),
+    '',
+    `Return only a JSON array of at most ${maxCommits} objects shaped like {"message": "...", "files": ["path", ...]}.`,
+    'Assign every changed file listed above to exactly one commit, using the paths exactly as listed.',
+    '',
+    '<diff>',
+    diffText,
+    '</diff>'
+  ];
+
+  return lines.join('\n');
+}
+
+export function buildRepairPrompt(basePrompt: string, previousMessage: string, violations: string[]): string {
+  return [
+    basePrompt,
+    '',
+    'Your previous answer was:',
+    '<previous>',
+    previousMessage,
+    '</previous>',
+    '',
+    'It violated these rules:',
+    ...violations.map((violation) => `- ${violation}`),
+    '',
+    'Fix every violation and return only the corrected commit message.'
   ].join('\n');
 }
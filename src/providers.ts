@@ -0,0 +1,40 @@
+import { ReasoningEffort, createCodexGenerator } from './codexCli';
+import { createCommandGenerator } from './commandGenerator';
+import { CommitMessageGenerator } from './generator';
+import { createHttpGenerator } from './httpGenerator';
+
+export type GeneratorProvider = 'codex' | 'openaiCompatible' | 'command';
+
+export interface ProviderSettings {
+  provider: GeneratorProvider;
+  model: string;
+  reasoningEffort: ReasoningEffort;
+  codexCommandPath: string;
+  httpBaseUrl: string;
+  httpModel: string;
+  httpApiKeyEnvVar: string;
+  commandPath: string;
+  commandArgs: string[];
+}
+
+export function createGenerator(settings: ProviderSettings): CommitMessageGenerator {
+  switch (settings.provider) {
+    case 'openaiCompatible':
+      return createHttpGenerator({
+        baseUrl: settings.httpBaseUrl,
+        model: settings.httpModel || settings.model,
+        apiKey: settings.httpApiKeyEnvVar ? process.env[settings.httpApiKeyEnvVar] : undefined
+      });
+    case 'command':
+      return createCommandGenerator({
+        commandPath: settings.commandPath,
+        args: settings.commandArgs
+      });
+    default:
+      return createCodexGenerator({
+        commandPath: settings.codexCommandPath,
+        model: settings.model,
+        reasoningEffort: settings.reasoningEffort
+      });
+  }
+}
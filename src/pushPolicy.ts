@@ -0,0 +1,62 @@
+import { GitBranch } from './gitApi';
+import { matchGlob } from './glob';
+
+export type EditedMessagePolicy = 'push' | 'ask' | 'skip';
+
+export interface PushPolicy {
+  remote: string;
+  allowedBranches: string[];
+  deniedBranches: string[];
+}
+
+export type PushDecision =
+  | {
+      readonly kind: 'push';
+      readonly branch: string;
+      readonly remote: string;
+      readonly remoteBranch: string;
+      readonly refspec: string;
+      readonly target: string;
+      readonly setUpstream: boolean;
+    }
+  | { readonly kind: 'skip'; readonly reason: 'detached' }
+  | { readonly kind: 'skip'; readonly reason: 'denied' | 'not-allowed'; readonly branch: string; readonly pattern?: string };
+
+export function decidePush(head: GitBranch | undefined, policy: PushPolicy): PushDecision {
+  const branch = head?.name;
+  if (!branch) {
+    return { kind: 'skip', reason: 'detached' };
+  }
+
+  const deniedBy = matchGlob(branch, policy.deniedBranches);
+  if (deniedBy) {
+    return { kind: 'skip', reason: 'denied', branch, pattern: deniedBy };
+  }
+
+  if (!matchGlob(branch, policy.allowedBranches)) {
+    return { kind: 'skip', reason: 'not-allowed', branch };
+  }
+
+  const upstream = head?.upstream;
+  if (upstream) {
+    return {
+      kind: 'push',
+      branch,
+      remote: upstream.remote,
+      remoteBranch: upstream.name,
+      refspec: upstream.name === branch ? branch : `${branch}:${upstream.name}`,
+      target: `${upstream.remote}/${upstream.name}`,
+      setUpstream: false
+    };
+  }
+
+  return {
+    kind: 'push',
+    branch,
+    remote: policy.remote,
+    remoteBranch: branch,
+    refspec: branch,
+    target: `${policy.remote}/${branch}`,
+    setUpstream: true
+  };
+}
@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { toErrorMessage } from './errors';
+import { runGit } from './gitCli';
+import { GitRepository } from './gitApi';
+import { PushDecision } from './pushPolicy';
+
+export type BehindResolution = 'pull-rebase' | 'force-with-lease' | 'skip';
+
+type PushTarget = Extract<PushDecision, { kind: 'push' }>;
+
+const PULL_TIMEOUT_MS = 120_000;
+
+export async function countCommitsBehind(
+  repository: GitRepository,
+  target: PushTarget,
+  output: vscode.OutputChannel
+): Promise<number | undefined> {
+  try {
+    await repository.fetch(target.remote);
+  } catch (error) {
+    output.appendLine(`[push] Fetch from ${target.remote} failed, skipping behind check: ${toErrorMessage(error)}`);
+    return undefined;
+  }
+
+  try {
+    await repository.status();
+  } catch (error) {
+    output.appendLine(`[push] Failed to refresh repository status: ${toErrorMessage(error)}`);
+  }
+
+  const head = repository.state.HEAD;
+  if (head?.upstream && typeof head.behind === 'number') {
+    return head.behind;
+  }
+
+  try {
+    const stdout = await runGit(repository.rootUri.fsPath, [
+      'rev-list',
+      '--left-right',
+      '--count',
+      `HEAD...refs/remotes/${target.remote}/${target.remoteBranch}`
+    ]);
+    const [, behind] = stdout.trim().split(/\s+/g);
+    return Number.parseInt(behind ?? '0', 10) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+export async function askBehindResolution(target: PushTarget, behind: number): Promise<BehindResolution> {
+  const pullRebase = 'Pull --rebase してpush';
+  const forceWithLease = 'force-with-lease でpush';
+  const skip = 'スキップ';
+  const picked = await vscode.window.showWarningMessage(
+    `${target.target} にローカルにない ${behind} 件のコミットがあります。自動pushをどうしますか？`,
+    pullRebase,
+    forceWithLease,
+    skip
+  );
+
+  if (picked === pullRebase) {
+    return 'pull-rebase';
+  }
+
+  if (picked !== forceWithLease) {
+    return 'skip';
+  }
+
+  const confirm = '上書きしてpush';
+  const confirmed = await vscode.window.showWarningMessage(
+    `${target.target} を force-with-lease で上書きします。リモートの ${behind} 件のコミットが失われます。続行しますか？`,
+    { modal: true },
+    confirm
+  );
+
+  return confirmed === confirm ? 'force-with-lease' : 'skip';
+}
+
+export async function confirmEditedMessagePush(generated: string, committed: string): Promise<boolean> {
+  const push = 'pushする';
+  const picked = await vscode.window.showWarningMessage(
+    'コミットメッセージが生成メッセージから編集されています。自動pushしますか？',
+    { modal: true, detail: `生成: ${generated}\n\nコミット: ${committed}` },
+    push
+  );
+
+  return picked === push;
+}
+
+export async function pullRebase(
+  repository: GitRepository,
+  target: PushTarget,
+  output: vscode.OutputChannel
+): Promise<void> {
+  const repositoryPath = repository.rootUri.fsPath;
+  output.appendLine(`[push] Running git pull --rebase --autostash ${target.remote} ${target.remoteBranch}`);
+  try {
+    await runGit(
+      repositoryPath,
+      ['pull', '--rebase', '--autostash', target.remote, target.remoteBranch],
+      PULL_TIMEOUT_MS
+    );
+  } catch (error) {
+    const message = toErrorMessage(error);
+    output.appendLine(`[push] pull --rebase failed: ${message}`);
+    try {
+      await runGit(repositoryPath, ['rebase', '--abort']);
+      output.appendLine('[push] Rebase aborted.');
+    } catch {
+      // No rebase in progress.
+    }
+
+    throw new Error(`pull --rebase に失敗しました（rebaseは中止しました）: ${message}`);
+  }
+}
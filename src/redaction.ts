@@ -0,0 +1,177 @@
+import { FileDiff } from './diffBudget';
+import { matchPathGlob } from './glob';
+
+export interface RedactionOptions {
+  customPatterns: RegExp[];
+  excludePaths: string[];
+}
+
+export interface RedactionFinding {
+  path: string;
+  kind: string;
+  count: number;
+}
+
+export interface RedactionResult {
+  files: FileDiff[];
+  excludedFiles: string[];
+  findings: RedactionFinding[];
+}
+
+interface Detector {
+  kind: string;
+  pattern: RegExp;
+  group?: number;
+  accept?: (groups: string[]) => boolean;
+}
+
+const CODE_EXPRESSION_PATTERN = /^[A-Za-z_$][\w$]*(?:(?:\??\.|::|->)[A-Za-z_$][\w$]*)*(?:\(.*)?$/;
+const ASSIGNMENT_ENTROPY_THRESHOLD = 3;
+
+function isCredentialValue(groups: string[]): boolean {
+  const [, quote, value] = groups;
+  if (quote) {
+    return true;
+  }
+
+  return !CODE_EXPRESSION_PATTERN.test(value) && shannonEntropy(value) >= ASSIGNMENT_ENTROPY_THRESHOLD;
+}
+
+const BUILT_IN_DETECTORS: Detector[] = [
+  {
+    kind: 'private-key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g
+  },
+  { kind: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,})\b/g },
+  { kind: 'openai-key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}\b/g },
+  { kind: 'slack-token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g },
+  { kind: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { kind: 'stripe-key', pattern: /\b[rs]k_(?:live|test)_[0-9A-Za-z]{16,}\b/g },
+  { kind: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\b/g },
+  {
+    kind: 'credential-assignment',
+    pattern:
+      /((?:password|passwd|secret|token|api[_-]?key|access[_-]?key|client[_-]?secret)["']?\s*[:=]\s*)(["'`]?)([^\s"'`,;]{8,})(?=\2)/gi,
+    group: 3,
+    accept: isCredentialValue
+  }
+];
+
+const HIGH_ENTROPY_CANDIDATE_PATTERN = /[A-Za-z0-9+=_-]{32,}/g;
+const DIFF_HEADER_LINE_PATTERN = /^(diff --git |index |--- |\+\+\+ |@@ )/;
+const HIGH_ENTROPY_THRESHOLD = 4.3;
+
+function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / text.length;
+    entropy -= probability * Math.log2(probability);
+  }
+
+  return entropy;
+}
+
+function placeholder(kind: string): string {
+  return `[REDACTED:${kind}]`;
+}
+
+function applyDetector(text: string, detector: Detector, counts: Map<string, number>): string {
+  return text.replace(detector.pattern, (match: string, ...groups: unknown[]) => {
+    if (detector.accept && !detector.accept(groups.map((group) => (typeof group === 'string' ? group : '')))) {
+      return match;
+    }
+
+    counts.set(detector.kind, (counts.get(detector.kind) ?? 0) + 1);
+    if (detector.group === undefined) {
+      return placeholder(detector.kind);
+    }
+
+    const prefix = groups.slice(0, detector.group - 1).join('');
+    return `${prefix}${placeholder(detector.kind)}`;
+  });
+}
+
+function redactHighEntropy(text: string, counts: Map<string, number>): string {
+  return text
+    .split('\n')
+    .map((line) => {
+      if (DIFF_HEADER_LINE_PATTERN.test(line)) {
+        return line;
+      }
+
+      const marker = /^[+\- ]/.test(line) ? line.charAt(0) : '';
+      const content = line.slice(marker.length).replace(HIGH_ENTROPY_CANDIDATE_PATTERN, (match) => {
+        if (shannonEntropy(match) < HIGH_ENTROPY_THRESHOLD) {
+          return match;
+        }
+
+        counts.set('high-entropy', (counts.get('high-entropy') ?? 0) + 1);
+        return placeholder('high-entropy');
+      });
+      return `${marker}${content}`;
+    })
+    .join('\n');
+}
+
+export function compileCustomPatterns(
+  patterns: string[],
+  onInvalid: (pattern: string, error: string) => void
+): RegExp[] {
+  const compiled: RegExp[] = [];
+  for (const pattern of patterns) {
+    try {
+      compiled.push(new RegExp(pattern, 'g'));
+    } catch (error) {
+      onInvalid(pattern, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return compiled;
+}
+
+export function redactText(text: string, options: RedactionOptions, allowHighEntropy: boolean): {
+  text: string;
+  counts: Map<string, number>;
+} {
+  const counts = new Map<string, number>();
+  let redacted = text;
+  for (const detector of BUILT_IN_DETECTORS) {
+    redacted = applyDetector(redacted, detector, counts);
+  }
+
+  for (const pattern of options.customPatterns) {
+    redacted = applyDetector(redacted, { kind: 'custom', pattern }, counts);
+  }
+
+  if (allowHighEntropy) {
+    redacted = redactHighEntropy(redacted, counts);
+  }
+
+  return { text: redacted, counts };
+}
+
+export function redactFileDiffs(files: FileDiff[], options: RedactionOptions): RedactionResult {
+  const result: RedactionResult = { files: [], excludedFiles: [], findings: [] };
+
+  for (const file of files) {
+    const { text, counts } = redactText(file.text, options, file.priority === 'normal');
+    for (const [kind, count] of counts) {
+      result.findings.push({ path: file.path, kind, count });
+    }
+
+    if (matchPathGlob(file.path, options.excludePaths)) {
+      result.excludedFiles.push(file.path);
+      continue;
+    }
+
+    result.files.push(counts.size > 0 ? { ...file, text } : file);
+  }
+
+  return result;
+}
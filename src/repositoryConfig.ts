@@ -0,0 +1,176 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+export const REPOSITORY_CONFIG_FILE_NAME = '.codex-commit.json';
+
+const SHAREABLE_KEYS = new Set([
+  'provider',
+  'model',
+  'reasoningEffort',
+  'http.model',
+  'diffSource',
+  'includeUntracked',
+  'untrackedPreviewMaxBytes',
+  'diffMaxChars',
+  'examples.recentCommitCount',
+  'examples.excludeAuthors',
+  'examples.maxChars',
+  'redaction.enabled',
+  'redaction.customPatterns',
+  'redaction.excludePaths',
+  'redaction.abortOnSecrets',
+  'candidateCount',
+  'plan.maxCommits',
+  'commit.signoff',
+  'commit.trailers',
+  'commit.coAuthorRoster',
+  'pushRemote',
+  'pushBranch',
+  'pushAllowedBranches',
+  'pushDeniedBranches',
+  'editedMessagePolicy',
+  'checkRemoteBeforePush',
+  'styleProfile',
+  'styleProfiles',
+  'promptInstructions',
+  'lint.disabledRules',
+  'lint.maxRepairAttempts',
+  'ticket.branchPattern',
+  'ticket.placement',
+  'ticket.trailerKey'
+]);
+
+type SafetyMerge = (repositoryValue: unknown, userValue: unknown) => unknown;
+
+const EDITED_MESSAGE_POLICY_STRICTNESS = ['push', 'ask', 'skip'];
+
+const keepEnabled: SafetyMerge = (repositoryValue, userValue) => repositoryValue === true || userValue;
+const unionPatterns: SafetyMerge = (repositoryValue, userValue) =>
+  Array.isArray(repositoryValue) && Array.isArray(userValue)
+    ? [...new Set([...userValue, ...repositoryValue])]
+    : userValue;
+const keepUserValue: SafetyMerge = (_repositoryValue, userValue) => userValue;
+
+const SAFETY_MERGES = new Map<string, SafetyMerge>([
+  ['redaction.enabled', keepEnabled],
+  ['redaction.abortOnSecrets', keepEnabled],
+  ['redaction.customPatterns', unionPatterns],
+  ['redaction.excludePaths', unionPatterns],
+  ['pushRemote', keepUserValue],
+  ['pushBranch', keepUserValue],
+  ['pushAllowedBranches', keepUserValue],
+  ['pushDeniedBranches', unionPatterns],
+  [
+    'editedMessagePolicy',
+    (repositoryValue, userValue) => {
+      const repositoryIndex = EDITED_MESSAGE_POLICY_STRICTNESS.indexOf(String(repositoryValue));
+      const userIndex = EDITED_MESSAGE_POLICY_STRICTNESS.indexOf(String(userValue));
+      return repositoryIndex > userIndex ? repositoryValue : userValue;
+    }
+  ],
+  ['checkRemoteBeforePush', keepEnabled]
+]);
+
+export interface RepositoryConfig {
+  filePath: string;
+  values: Record<string, unknown>;
+  ignoredKeys: string[];
+  error?: string;
+}
+
+export interface SettingsSource {
+  get<T>(key: string, defaultValue: T): T;
+}
+
+const configCache = new Map<string, { mtimeMs: number; config: RepositoryConfig }>();
+
+function parseRepositoryConfig(filePath: string, text: string): RepositoryConfig {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text) as unknown;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { filePath, values: {}, ignoredKeys: [], error: `Invalid JSON: ${message}` };
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return { filePath, values: {}, ignoredKeys: [], error: 'The top-level value must be an object.' };
+  }
+
+  const values: Record<string, unknown> = {};
+  const ignoredKeys: string[] = [];
+  for (const [key, value] of Object.entries(parsed)) {
+    if (key === '$schema') {
+      continue;
+    }
+
+    if (SHAREABLE_KEYS.has(key)) {
+      values[key] = value;
+    } else {
+      ignoredKeys.push(key);
+    }
+  }
+
+  return { filePath, values, ignoredKeys };
+}
+
+export function loadRepositoryConfig(repositoryPath: string): RepositoryConfig | undefined {
+  const filePath = path.join(repositoryPath, REPOSITORY_CONFIG_FILE_NAME);
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(filePath);
+  } catch {
+    configCache.delete(filePath);
+    return undefined;
+  }
+
+  const cached = configCache.get(filePath);
+  if (cached && cached.mtimeMs === stat.mtimeMs) {
+    return cached.config;
+  }
+
+  let config: RepositoryConfig;
+  try {
+    config = parseRepositoryConfig(filePath, fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    config = { filePath, values: {}, ignoredKeys: [], error: message };
+  }
+
+  configCache.set(filePath, { mtimeMs: stat.mtimeMs, config });
+  return config;
+}
+
+function hasSameShape(value: unknown, defaultValue: unknown): boolean {
+  if (Array.isArray(defaultValue)) {
+    return Array.isArray(value);
+  }
+
+  if (typeof defaultValue === 'object' && defaultValue !== null) {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  return typeof value === typeof defaultValue;
+}
+
+export function createSettingsSource(
+  config: vscode.WorkspaceConfiguration,
+  repositoryConfig: RepositoryConfig | undefined
+): SettingsSource {
+  return {
+    get<T>(key: string, defaultValue: T): T {
+      const value = repositoryConfig?.values[key];
+      if (value === undefined || !hasSameShape(value, defaultValue)) {
+        return config.get<T>(key, defaultValue);
+      }
+
+      const merge = SAFETY_MERGES.get(key);
+      if (merge && !vscode.workspace.isTrusted) {
+        return merge(value, config.get<T>(key, defaultValue)) as T;
+      }
+
+      return value as T;
+    }
+  };
+}
@@ -0,0 +1,129 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { toErrorMessage } from './errors';
+import { CommitMessageGenerator } from './generator';
+
+export interface ResponseCacheLimits {
+  maxAgeMs: number;
+  maxBytes: number;
+}
+
+export interface ResponseCacheKey {
+  provider: string;
+  model: string;
+  reasoningEffort: string;
+  prompt: string;
+}
+
+interface CachedResponse {
+  createdAt: number;
+  response: string;
+}
+
+const CACHE_FILE_EXTENSION = '.json';
+
+function hashKey(key: ResponseCacheKey): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([key.provider, key.model, key.reasoningEffort, key.prompt]))
+    .digest('hex');
+}
+
+export class ResponseCache {
+  public constructor(
+    private readonly directory: string,
+    private readonly getLimits: () => ResponseCacheLimits
+  ) {}
+
+  public async get(key: ResponseCacheKey): Promise<string | undefined> {
+    const { maxAgeMs } = this.getLimits();
+    let cached: CachedResponse;
+    try {
+      cached = JSON.parse(await fs.promises.readFile(this.filePath(key), 'utf8')) as CachedResponse;
+    } catch {
+      return undefined;
+    }
+
+    if (typeof cached.response !== 'string' || Date.now() - cached.createdAt > maxAgeMs) {
+      return undefined;
+    }
+
+    return cached.response;
+  }
+
+  public async set(key: ResponseCacheKey, response: string): Promise<void> {
+    const cached: CachedResponse = { createdAt: Date.now(), response };
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(this.filePath(key), JSON.stringify(cached), 'utf8');
+    await this.prune();
+  }
+
+  private filePath(key: ResponseCacheKey): string {
+    return path.join(this.directory, `${hashKey(key)}${CACHE_FILE_EXTENSION}`);
+  }
+
+  private async prune(): Promise<void> {
+    const { maxAgeMs, maxBytes } = this.getLimits();
+    const names = (await fs.promises.readdir(this.directory)).filter((name) => name.endsWith(CACHE_FILE_EXTENSION));
+    const files: Array<{ filePath: string; size: number; mtimeMs: number }> = [];
+    for (const name of names) {
+      const filePath = path.join(this.directory, name);
+      try {
+        const stat = await fs.promises.stat(filePath);
+        files.push({ filePath, size: stat.size, mtimeMs: stat.mtimeMs });
+      } catch {
+        // Removed concurrently.
+      }
+    }
+
+    files.sort((left, right) => right.mtimeMs - left.mtimeMs);
+    const now = Date.now();
+    let totalBytes = 0;
+    for (const file of files) {
+      totalBytes += file.size;
+      if (now - file.mtimeMs > maxAgeMs || totalBytes > maxBytes) {
+        await fs.promises.rm(file.filePath, { force: true });
+      }
+    }
+  }
+}
+
+export function withResponseCache(
+  generator: CommitMessageGenerator,
+  cache: ResponseCache,
+  options: { provider: string; reasoningEffort: string; bypass: boolean },
+  output: vscode.OutputChannel
+): CommitMessageGenerator {
+  return {
+    label: generator.label,
+    model: generator.model,
+    generate: async (request) => {
+      const key: ResponseCacheKey = {
+        provider: options.provider,
+        model: generator.model,
+        reasoningEffort: options.reasoningEffort,
+        prompt: request.prompt
+      };
+
+      if (!options.bypass) {
+        const cached = await cache.get(key);
+        if (cached !== undefined) {
+          output.appendLine('[cache] Using the cached response for an identical prompt.');
+          request.onProgress?.('キャッシュから取得しました');
+          return cached;
+        }
+      }
+
+      const response = await generator.generate(request);
+      try {
+        await cache.set(key, response);
+      } catch (error) {
+        output.appendLine(`[cache] Failed to store the response: ${toErrorMessage(error)}`);
+      }
+
+      return response;
+    }
+  };
+}
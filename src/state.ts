@@ -1,22 +1,52 @@
+import * as vscode from 'vscode';
 import { GitRepository, repositoryKey } from './gitApi';
 
 export interface PendingGeneratedCommit {
   message: string;
   createdAt: number;
+  baseCommit?: string;
+  historyId?: string;
 }
 
-export class PendingCommitState {
-  private readonly pendingByRepository = new Map<string, PendingGeneratedCommit>();
+const PENDING_STORAGE_KEY = 'codexCommitPush.pendingCommits';
 
-  public set(repository: GitRepository, pending: PendingGeneratedCommit): void {
-    this.pendingByRepository.set(repositoryKey(repository), pending);
+export function isPendingExpired(pending: PendingGeneratedCommit, expiryMinutes: number, now = Date.now()): boolean {
+  return expiryMinutes > 0 && now - pending.createdAt > expiryMinutes * 60_000;
+}
+
+export class PendingCommitState implements vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+  public readonly onDidChange = this.changeEmitter.event;
+
+  public constructor(private readonly storage: vscode.Memento) {}
+
+  private read(): Record<string, PendingGeneratedCommit> {
+    return this.storage.get<Record<string, PendingGeneratedCommit>>(PENDING_STORAGE_KEY, {});
+  }
+
+  public async set(repository: GitRepository, pending: PendingGeneratedCommit): Promise<void> {
+    await this.storage.update(PENDING_STORAGE_KEY, { ...this.read(), [repositoryKey(repository)]: pending });
+    this.changeEmitter.fire();
   }
 
   public get(repository: GitRepository): PendingGeneratedCommit | undefined {
-    return this.pendingByRepository.get(repositoryKey(repository));
+    return this.read()[repositoryKey(repository)];
+  }
+
+  public async clear(repository: GitRepository): Promise<void> {
+    const key = repositoryKey(repository);
+    const pendingByRepository = { ...this.read() };
+    if (!(key in pendingByRepository)) {
+      return;
+    }
+
+    delete pendingByRepository[key];
+    await this.storage.update(PENDING_STORAGE_KEY, pendingByRepository);
+    this.changeEmitter.fire();
   }
 
-  public clear(repository: GitRepository): void {
-    this.pendingByRepository.delete(repositoryKey(repository));
+  public dispose(): void {
+    this.changeEmitter.dispose();
   }
 }
@@ -0,0 +1,208 @@
+export type MessageFormat = 'subject' | 'subjectAndBody';
+
+export interface StyleProfile {
+  language: string;
+  minLength: number;
+  maxLength: number;
+  conventionalCommits: boolean;
+  allowedTypes: string[];
+  allowedScopes: string[];
+  format: MessageFormat;
+  bodyWrapColumn: number;
+  forbiddenPrefixes: string[];
+  forbidTrailingPunctuation: boolean;
+  subjectPattern: string;
+  customInstructions: string;
+}
+
+export interface ResolvedStyleProfile {
+  name: string;
+  profile: StyleProfile;
+}
+
+export const DEFAULT_STYLE_PROFILE_NAME = 'japanese';
+
+const DEFAULT_CONVENTIONAL_TYPES = [
+  'feat',
+  'fix',
+  'docs',
+  'style',
+  'refactor',
+  'perf',
+  'test',
+  'build',
+  'ci',
+  'chore',
+  'revert'
+];
+
+const BUILT_IN_PROFILES: Record<string, StyleProfile> = {
+  japanese: {
+    language: 'Japanese',
+    minLength: 30,
+    maxLength: 50,
+    conventionalCommits: false,
+    allowedTypes: [],
+    allowedScopes: [],
+    format: 'subject',
+    bodyWrapColumn: 72,
+    forbiddenPrefixes: [],
+    forbidTrailingPunctuation: true,
+    subjectPattern: '',
+    customInstructions: ''
+  },
+  english: {
+    language: 'English',
+    minLength: 20,
+    maxLength: 72,
+    conventionalCommits: false,
+    allowedTypes: [],
+    allowedScopes: [],
+    format: 'subject',
+    bodyWrapColumn: 72,
+    forbiddenPrefixes: [],
+    forbidTrailingPunctuation: true,
+    subjectPattern: '',
+    customInstructions: ''
+  },
+  conventional: {
+    language: 'English',
+    minLength: 20,
+    maxLength: 72,
+    conventionalCommits: true,
+    allowedTypes: DEFAULT_CONVENTIONAL_TYPES,
+    allowedScopes: [],
+    format: 'subject',
+    bodyWrapColumn: 72,
+    forbiddenPrefixes: [],
+    forbidTrailingPunctuation: true,
+    subjectPattern: '',
+    customInstructions: ''
+  },
+  'japanese-body': {
+    language: 'Japanese',
+    minLength: 20,
+    maxLength: 50,
+    conventionalCommits: false,
+    allowedTypes: [],
+    allowedScopes: [],
+    format: 'subjectAndBody',
+    bodyWrapColumn: 72,
+    forbiddenPrefixes: [],
+    forbidTrailingPunctuation: true,
+    subjectPattern: '',
+    customInstructions: ''
+  },
+  'english-body': {
+    language: 'English',
+    minLength: 20,
+    maxLength: 72,
+    conventionalCommits: false,
+    allowedTypes: [],
+    allowedScopes: [],
+    format: 'subjectAndBody',
+    bodyWrapColumn: 72,
+    forbiddenPrefixes: [],
+    forbidTrailingPunctuation: true,
+    subjectPattern: '',
+    customInstructions: ''
+  }
+};
+
+function toStringArray(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  return value
+    .filter((item): item is string => typeof item === 'string')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function toPositiveInteger(value: unknown): number | undefined {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 1) {
+    return undefined;
+  }
+
+  return Math.floor(value);
+}
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'u');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function mergeProfile(base: StyleProfile, raw: unknown): StyleProfile {
+  if (typeof raw !== 'object' || raw === null) {
+    return base;
+  }
+
+  const record = raw as Record<string, unknown>;
+  const merged: StyleProfile = { ...base };
+
+  if (typeof record.language === 'string') {
+    merged.language = record.language.trim();
+  }
+
+  merged.minLength = toPositiveInteger(record.minLength) ?? merged.minLength;
+  merged.maxLength = toPositiveInteger(record.maxLength) ?? merged.maxLength;
+  if (merged.minLength > merged.maxLength) {
+    merged.minLength = merged.maxLength;
+  }
+
+  if (typeof record.conventionalCommits === 'boolean') {
+    merged.conventionalCommits = record.conventionalCommits;
+  }
+
+  merged.allowedTypes = toStringArray(record.allowedTypes) ?? merged.allowedTypes;
+  merged.allowedScopes = toStringArray(record.allowedScopes) ?? merged.allowedScopes;
+
+  if (record.format === 'subject' || record.format === 'subjectAndBody') {
+    merged.format = record.format;
+  }
+
+  merged.bodyWrapColumn = toPositiveInteger(record.bodyWrapColumn) ?? merged.bodyWrapColumn;
+  merged.forbiddenPrefixes = toStringArray(record.forbiddenPrefixes) ?? merged.forbiddenPrefixes;
+
+  if (typeof record.forbidTrailingPunctuation === 'boolean') {
+    merged.forbidTrailingPunctuation = record.forbidTrailingPunctuation;
+  }
+
+  if (typeof record.subjectPattern === 'string' && isValidPattern(record.subjectPattern)) {
+    merged.subjectPattern = record.subjectPattern;
+  }
+
+  if (typeof record.customInstructions === 'string') {
+    merged.customInstructions = record.customInstructions.trim();
+  }
+
+  return merged;
+}
+
+export function resolveStyleProfile(
+  profileName: string,
+  customProfiles: Record<string, unknown>
+): ResolvedStyleProfile {
+  const name = profileName.trim() || DEFAULT_STYLE_PROFILE_NAME;
+  const custom = customProfiles[name];
+
+  if (custom !== undefined) {
+    const extendsName = (custom as { extends?: unknown } | null)?.extends;
+    const base =
+      (typeof extendsName === 'string' ? BUILT_IN_PROFILES[extendsName] : undefined) ??
+      BUILT_IN_PROFILES[DEFAULT_STYLE_PROFILE_NAME];
+    return { name, profile: mergeProfile(base, custom) };
+  }
+
+  const builtIn = BUILT_IN_PROFILES[name];
+  if (builtIn) {
+    return { name, profile: builtIn };
+  }
+
+  return { name: DEFAULT_STYLE_PROFILE_NAME, profile: BUILT_IN_PROFILES[DEFAULT_STYLE_PROFILE_NAME] };
+}
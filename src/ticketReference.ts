@@ -0,0 +1,72 @@
+import { appendTrailers } from './commitMessage';
+
+export type TicketPlacement = 'prefix' | 'suffix' | 'trailer';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function extractTickets(branchName: string | undefined, pattern: string): string[] {
+  if (!branchName || !pattern) {
+    return [];
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, 'g');
+  } catch {
+    return [];
+  }
+
+  const tickets: string[] = [];
+  for (const match of branchName.matchAll(regex)) {
+    const ticket = match[1] ?? match[0];
+    if (ticket && !tickets.includes(ticket)) {
+      tickets.push(ticket);
+    }
+  }
+
+  return tickets;
+}
+
+export function stripTicketReferences(message: string, tickets: string[], trailerKey: string): string {
+  if (tickets.length === 0) {
+    return message;
+  }
+
+  const [subject, ...rest] = message.split('\n');
+  let strippedSubject = subject;
+  for (const ticket of tickets) {
+    const ticketPattern = new RegExp(
+      `\\s*[\\[(]?(?<![A-Za-z0-9-])${escapeRegExp(ticket)}(?![A-Za-z0-9])[\\])]?:?\\s*`,
+      'g'
+    );
+    strippedSubject = strippedSubject.replace(ticketPattern, ' ');
+  }
+
+  const trailerPrefix = `${trailerKey.toLowerCase()}:`;
+  const body = rest.filter((line) => !line.toLowerCase().startsWith(trailerPrefix));
+  return [strippedSubject.replace(/\s+/g, ' ').trim(), ...body].join('\n').trimEnd();
+}
+
+export function applyTicketReferences(
+  message: string,
+  tickets: string[],
+  placement: TicketPlacement,
+  trailerKey: string
+): string {
+  if (tickets.length === 0) {
+    return message;
+  }
+
+  const stripped = stripTicketReferences(message, tickets, trailerKey);
+  const [subject, ...rest] = stripped.split('\n');
+  switch (placement) {
+    case 'prefix':
+      return [`${tickets.join(' ')} ${subject}`, ...rest].join('\n');
+    case 'suffix':
+      return [`${subject} (${tickets.join(', ')})`, ...rest].join('\n');
+    default:
+      return appendTrailers(stripped, [`${trailerKey}: ${tickets.join(', ')}`]);
+  }
+}